@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+import { existsSync, readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import chalk from 'chalk';
+
+import { createServer } from './createServer.js';
+import { runFixtures } from './utils/fixtures.js';
+import { createPresetLoader } from './utils/loadPresets.js';
+import { renderLocal } from './utils/renderLocal.js';
+import { formatIssue } from './utils/validateRules.js';
+import { loadConfig, toServerOptions, type CliConfig } from './utils/loadConfig.js';
+
+import type { CreateServerProps, OutputFormat } from './types.js';
+
+const USAGE = `Usage: geoip-3xui-rules <command> [options]
+
+Commands:
+  serve                 Start the server
+  check                 Validate rulesDir, overridesDir and outboundsDir, exit with 1 on errors or invalid entries
+  render                Print the routing rules a client would receive
+  test                  Compare fixtures with their expected output, exit with 1 on differences
+
+Options:
+  -c, --config <file>   JSON or YAML config file
+                        (default: geoip-3xui-rules.config.json, .yaml or .yml if present)
+  -h, --help            Show this help
+
+Render options:
+  --upstream <file>     Upstream subscription JSON to render (required)
+  --country <code>      ISO country code or region name of the client
+  --eu                  Client is in the EU
+  --tags <list>         Comma-separated tags
+  --sub-id <id>         Subscription id, for per-user presets and "when" conditions
+  --format <format>     xray (default), singbox or mihomo
+  --user-agent <ua>     User-Agent of the client app, e.g. "v2rayNG/1.8.5"
+  --tenant <secretUrl>  Tenant to render for (default: the first one)
+  --full                Print the whole config instead of routing.rules
+
+Test options:
+  --fixtures <dir>      Directory of *.fixture.json / .yaml files (default: fixtures)
+  --update              Write the expected files from the current output
+  --tenant <secretUrl>  Tenant whose presets to use (default: the first one)
+
+Environment variables override the config file: UPSTREAM_URL, SECRET_URL,
+RULES_DIR, OVERRIDES_DIR, OUTBOUNDS_DIR, PUBLIC_URL, PORT, HOST, VALIDATION,
+ADMIN_TOKEN, EXPLAIN_TOKEN, XUI_PANEL_URL, XUI_PANEL_TOKEN, XUI_INBOUND_IDS.
+`;
+
+const serve = async (config: CliConfig) => {
+  const app = await createServer(toServerOptions(config));
+  const shutdown = async () => {
+    await app.close();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+  await app.listen({ port: config.port ?? 3088, host: config.host ?? '0.0.0.0' });
+};
+
+/**
+ * Load the presets of every tenant the way the server does
+ * @returns whether every file loaded without invalid entries
+ */
+const check = (config: CliConfig) => {
+  const tenants = [config, ...(config.tenants ?? [])];
+  let failed = 0;
+  for (const {
+    rulesDir = 'rules',
+    overridesDir = 'overrides',
+    outboundsDir = 'outbounds',
+  } of tenants) {
+    if (!existsSync(rulesDir)) {
+      console.error(chalk.red(`rulesDir ${rulesDir} does not exist`));
+      failed += 1;
+      continue;
+    }
+    const loader = createPresetLoader({
+      rulesDir,
+      overridesDir,
+      outboundsDir,
+      validation: config.validation,
+    });
+    const { errors, warnings, messages } = loader.load();
+    console.log(chalk.bold(`${rulesDir}, ${overridesDir}, ${outboundsDir}`));
+    messages.forEach((message) => console.log(`  ${message}`));
+    // The server only drops invalid entries in lenient mode, a check fails on them
+    warnings.forEach((issue) =>
+      console.error(chalk.red(`  Invalid entry – ${formatIssue(issue)}`)),
+    );
+    errors.forEach(({ file, error }) =>
+      console.error(chalk.red(`  Failed to load ${file}: ${error}`)),
+    );
+    failed += errors.length + warnings.length;
+  }
+  if (failed) {
+    console.error(chalk.red(`Presets check failed with ${failed} error(s)`));
+    return false;
+  }
+  console.log(chalk.green('All presets loaded'));
+  return true;
+};
+
+/**
+ * Options to render locally for one tenant: its presets and the shared options,
+ * without GeoIP, panel, metrics, persisted cache or other tenants
+ */
+const localOptions = (
+  { port, host, geoip, tenants, xuiOptions, metrics, countryCache, ...config }: CliConfig,
+  tenantName: string | undefined,
+): Partial<CreateServerProps> => {
+  const tenant = tenantName
+    ? tenants?.find(({ secretUrl }) => secretUrl === tenantName)
+    : config;
+  if (!tenant) throw new Error(`no tenant with secretUrl "${tenantName}"`);
+  const { rulesDir, overridesDir, outboundsDir, publicURL } = tenant;
+  return { ...config, rulesDir, overridesDir, outboundsDir, publicURL };
+};
+
+/**
+ * Run a subscription through the server, with a local file as upstream
+ */
+const render = async (
+  config: CliConfig,
+  options: Record<string, string | boolean | undefined>,
+) => {
+  if (typeof options.upstream !== 'string') {
+    throw new Error('render: --upstream <file> is required');
+  }
+  // Fail early on a broken file rather than with a 502
+  const upstream = JSON.parse(readFileSync(options.upstream, 'utf8'));
+  const format = typeof options.format === 'string' ? options.format : 'xray';
+
+  const { statusCode, body } = await renderLocal(
+    localOptions(config, options.tenant as string | undefined),
+    {
+      upstream,
+      country: options.country as string | undefined,
+      eu: options.eu ? true : undefined,
+      tags: typeof options.tags === 'string' ? options.tags.split(',') : undefined,
+      subId: typeof options['sub-id'] === 'string' ? options['sub-id'] : 'cli',
+      format: format as OutputFormat,
+      userAgent: options['user-agent'] as string | undefined,
+    },
+  );
+  if (statusCode !== 200) throw new Error(`render: ${statusCode} ${body}`);
+  if (format !== 'xray' || options.full) {
+    console.log(body);
+    return;
+  }
+  const output = JSON.parse(body);
+  const rendered = Array.isArray(output)
+    ? output.find((item) => item && typeof item === 'object' && !Array.isArray(item))
+    : output;
+  console.log(JSON.stringify(rendered?.routing?.rules ?? [], null, 2));
+};
+
+/**
+ * Compare fixtures with their expected output
+ * @returns whether every fixture passed
+ */
+const test = async (config: CliConfig, options: Record<string, string | boolean | undefined>) => {
+  const dir = typeof options.fixtures === 'string' ? options.fixtures : 'fixtures';
+  if (!existsSync(dir)) throw new Error(`test: fixtures directory ${dir} does not exist`);
+  const results = await runFixtures({
+    dir,
+    options: localOptions(config, options.tenant as string | undefined),
+    update: Boolean(options.update),
+  });
+
+  for (const { name, status, expectedFile, diff, error } of results) {
+    switch (status) {
+      case 'passed':
+        console.log(chalk.green(`  ✓ ${name}`));
+        break;
+      case 'updated':
+        console.log(chalk.cyan(`  ↻ ${name}: wrote ${expectedFile}`));
+        break;
+      case 'missing':
+        console.log(chalk.yellow(`  ? ${name}: no ${expectedFile}, run with --update`));
+        break;
+      case 'error':
+        console.log(chalk.red(`  ✗ ${name}: ${error}`));
+        break;
+      case 'failed':
+        console.log(chalk.red(`  ✗ ${name}`));
+        diff.forEach((line) =>
+          console.log(`      ${line.startsWith('+') ? chalk.green(line) : chalk.red(line)}`),
+        );
+        break;
+    }
+  }
+  const failed = results.filter(({ status }) => ['failed', 'missing', 'error'].includes(status));
+  if (failed.length) {
+    console.error(chalk.red(`${failed.length} of ${results.length} fixture(s) failed`));
+    return false;
+  }
+  console.log(chalk.green(`${results.length} fixture(s) passed`));
+  return true;
+};
+
+const main = async () => {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      config: { type: 'string', short: 'c' },
+      help: { type: 'boolean', short: 'h' },
+      upstream: { type: 'string' },
+      country: { type: 'string' },
+      eu: { type: 'boolean' },
+      tags: { type: 'string' },
+      'sub-id': { type: 'string' },
+      format: { type: 'string' },
+      'user-agent': { type: 'string' },
+      tenant: { type: 'string' },
+      full: { type: 'boolean' },
+      fixtures: { type: 'string' },
+      update: { type: 'boolean' },
+    },
+  });
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  const config = loadConfig(values.config);
+  switch (command) {
+    case 'serve':
+      return serve(config);
+    case 'check':
+      if (!check(config)) process.exitCode = 1;
+      return;
+    case 'render':
+      return render(config, values);
+    case 'test':
+      if (!(await test(config, values))) process.exitCode = 1;
+      return;
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+};
+
+main().catch((err) => {
+  console.error(chalk.red(err instanceof Error ? err.message : String(err)));
+  process.exit(1);
+});
@@ -5,4 +5,12 @@ export const COUNTRY_TLDS = new Map<string, string[]>(
     c.cca2.toUpperCase(),
     c.tld?.map((t) => t.replace(/^\./, '')) || [],
   ]),
-);
\ No newline at end of file
+);
+
+/**
+ * Member states of the European Union, ISO-3166 alpha-2
+ */
+export const EU_COUNTRIES = new Set([
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+]);
@@ -1,213 +1,500 @@
-import Fastify from 'fastify';
-import { readFileSync, readdirSync, existsSync } from 'fs';
-import { join, parse } from 'path';
-import { lookup as ipLookup } from 'ip-location-api';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import { dirname, join, posix, resolve } from 'path';
+import Fastify, { type FastifyReply, type FastifyRequest } from 'fastify';
 import countries from 'world-countries';
 
 import { COUNTRY_TLDS } from './constants.js';
-import { removeDuplicateRules } from './utils/removeDuplicateRules.js';
+import { createGeoIpChain, ipLocationApiProvider } from './geoip.js';
+import { removeDuplicateRules, type DuplicateRemoval } from './utils/removeDuplicateRules.js';
+import { optimizeConfigRules } from './utils/optimizeRules.js';
+import { evaluateCondition, type Condition, type RequestContext } from './utils/conditions.js';
+import { substituteVariables, type RequestVariables } from './utils/variables.js';
 import { get3xui } from './utils/get3xui.js';
-import { getClientIp } from './utils/getClientIp.js';
+import { parseCommentDirectives } from './utils/commentDirectives.js';
+import { createClientIpResolver } from './utils/getClientIp.js';
 import { buildDomainRule } from './utils/buildDomainRule.js';
+import { createPresetLoader, type PresetSnapshot, type TagPreset } from './utils/loadPresets.js';
+import { watchPresets } from './utils/watchPresets.js';
+import { formatIssue } from './utils/validateRules.js';
+import { MERGE_STRATEGIES_KEY, applyOverrides } from './utils/mergeOverrides.js';
+import { hasBearerToken } from './utils/hasBearerToken.js';
+import { resolveRegions, type Region } from './utils/regions.js';
+import { createCountryCache } from './utils/countryCache.js';
+import { createUpstreamClient } from './utils/fetchUpstream.js';
+import { toSingBox } from './utils/toSingBox.js';
+import { mihomoToYaml, toMihomo } from './utils/toMihomo.js';
+import { createMetrics } from './utils/metrics.js';
+import { createClientApps } from './utils/clientApps.js';
+import { dropDanglingRefs, type DanglingRef } from './utils/outboundRefs.js';
 
-import type { JsonOptions, XrayRule, CreateServerProps, QueryType } from './types.js';
+import type {
+  DetectedClient,
+  JsonOptions,
+  JsonValue,
+  XrayRule,
+  CreateServerProps,
+  OutputFormat,
+  QueryType,
+  TenantOptions,
+} from './types.js';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['xray', 'singbox', 'mihomo'];
+
+/** Preset directories of a tenant that leaves them unset */
+const TENANT_DIRS = { rulesDir: 'rules', overridesDir: 'overrides', outboundsDir: 'outbounds' };
+
+const asObject = (value: JsonValue | undefined): JsonOptions =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+
+const getUpstreamRules = (config: JsonOptions): JsonValue[] => {
+  const rules = asObject(config.routing).rules;
+  return Array.isArray(rules) ? rules : [];
+};
 
 /**
- * Cache for last country lookup to each user
+ * A `country` override: `EU` and other region names keep the ISO code, anything else replaces it
  */
-const USERS_COUNTRY_CACHE = new Map<string, string>();
+const parseCountryOverride = (country: string, regions: Region[]) => {
+  const code = country.toUpperCase();
+  // Special token: mark as EU region
+  if (code === 'EU') return { isEU: true };
+  // Any other region name: add the region
+  if (regions.some(({ name }) => name === code)) return { region: code };
+  return { iso: code };
+};
 
-interface TagPreset {
-  base: XrayRule[];
-  default: XrayRule[];
-  country: Record<string, XrayRule[]>;
-}
+/**
+ * `?tags=a,b` or `?tags=a&tags=b`
+ */
+const parseTagsQuery = (tags: QueryType[string]) =>
+  (Array.isArray(tags) ? tags : tags?.split(',') ?? []).filter(Boolean);
 
-type PresetMap = Record<string, XrayRule[]>;
+/**
+ * What preset rules are resolved for
+ */
+interface RuleRequest {
+  subId: string;
+  email?: string;
+  iso: string;
+  isEU: boolean;
+  regions: string[];
+  tags: string[];
+  sameCountryDirect: boolean;
+  query: QueryType;
+  headers: FastifyRequest['headers'];
+  client: DetectedClient | null;
+}
 
 export async function createServer({
-  upstreamUrl,
-  secretUrl,
-  rulesDir = 'rules',
-  overridesDir = 'overrides',
   directSameCountry = true,
   logger = true,
-  publicURL,
-  xuiOptions,
-  transform,
+  watch = true,
+  validation = 'lenient',
+  trustedProxies = [],
+  clientIpHeaders,
+  routingMerge = 'replace',
+  optimize = false,
+  domainStrategy,
+  overrideMerge = {},
+  geoip = [ipLocationApiProvider()],
+  upstream: upstreamOptions,
+  metrics: metricsOptions,
+  formats = {},
+  clientApps: clientAppOptions,
+  outboundCheck = 'drop',
+  now = () => new Date(),
+  tenants = [],
+  ...firstTenant
 }: CreateServerProps) {
+  if (metricsOptions && metricsOptions.port === undefined && !metricsOptions.token) {
+    throw new Error('metrics: set `port` to serve them separately, or a `token`');
+  }
   const app = Fastify({ logger });
-  const RULE_PRESETS: PresetMap = {};
-  const OVERRIDE_PRESETS: PresetMap = {};
-  type ReversePreset = { exclude: Set<string>; excludeEU: boolean; rules: XrayRule[]; name: string };
-  const REVERSE_PRESETS: ReversePreset[] = [];
-
-  const TAGS_PRESETS: Record<string, TagPreset> = {};
-  const { getUserTags } = xuiOptions
-    ? await get3xui(xuiOptions)
-    : {
-      getUserTags: () => '',
-    };
 
-  // Includes support
-  const includesDir = join(rulesDir, 'includes');
-  const expandIncludes = (text: string, seen = new Set<string>()): string => {
-    return text.replace(/"@include\s+([A-Za-z0-9._-]+)"/g, (_m, name: string) => {
-      const fileName = name.endsWith('.json') ? name : `${name}.json`;
-      const fullPath = join(includesDir, fileName);
-      try {
-        if (seen.has(fullPath)) return '{}';
-        if (!existsSync(fullPath)) return '{}';
-        seen.add(fullPath);
-        let content = readFileSync(fullPath, 'utf8');
-        content = expandIncludes(content, seen);
-        seen.delete(fullPath);
-        return content.trim();
-      } catch (err) {
-        app.log.error(`Include failed for ${fullPath}: ${err}`);
-        return '{}';
-      }
-    });
-  };
-  const flattenRuleArray = (arr: any[]): any[] => {
-    const out: any[] = [];
-    for (const item of arr) {
-      if (Array.isArray(item)) {
-        // Recursively flatten only when an array appears where a rule item is expected
-        out.push(...flattenRuleArray(item));
-      } else {
-        out.push(item);
-      }
-    }
-    return out;
-  };
-  const parseWithIncludes = (filePath: string, expectArray = false) => {
-    const raw = readFileSync(filePath, 'utf8');
-    const expanded = expandIncludes(raw);
-    const parsed = JSON.parse(expanded);
-    if (expectArray && Array.isArray(parsed)) return flattenRuleArray(parsed);
-    return parsed;
-  };
+  const geoIpLookup = createGeoIpChain(geoip, (provider, err) => {
+    metrics?.geoipProviderErrors.inc({ provider: provider.name });
+    app.log.warn(`GeoIP provider ${provider.name} failed: ${err}`);
+  });
+  const getClientIp = createClientIpResolver({
+    trustedProxies,
+    headers: clientIpHeaders,
+  });
+  const clientApps = createClientApps(clientAppOptions);
 
-  if (existsSync(rulesDir)) {
-    for (const file of readdirSync(rulesDir).filter((f) => f.endsWith('.json'))) {
-      const baseName = parse(file).name;
-      const full = join(rulesDir, file);
-      try {
-        if (baseName.startsWith('!')) {
-          const tokens = baseName
-            .slice(1)
-            .split(',')
-            .map((s) => s.trim().toUpperCase())
-            .filter(Boolean);
-          const excludeEU = tokens.includes('EU');
-          const countries = tokens.filter((t) => t !== 'EU');
-          const rules = parseWithIncludes(full, true) as XrayRule[];
-          REVERSE_PRESETS.push({ exclude: new Set(countries), excludeEU, rules, name: baseName });
-          app.log.info(`Loaded reverse rules ${baseName}`);
-        } else {
-          const code = baseName.toUpperCase();
-          RULE_PRESETS[code] = parseWithIncludes(full, true);
-          app.log.info(`Loaded rules for ${code}`);
-        }
-      } catch (err) {
-        app.log.error(`Failed to load ${file}: ${err}`);
-      }
+  const allTenants = [firstTenant, ...tenants];
+  const secrets = allTenants.map((tenant) => tenant.secretUrl);
+  const duplicate = secrets.find((secret, index) => secrets.indexOf(secret) !== index);
+  if (duplicate !== undefined) {
+    throw new Error(`tenants: secretUrl "${duplicate}" is used by more than one tenant`);
+  }
+  // A tenant leaving a directory unset would otherwise read and watch another tenant's presets
+  for (const key of ['rulesDir', 'overridesDir', 'outboundsDir'] as const) {
+    const dirs = allTenants.map((tenant) => resolve(tenant[key] ?? TENANT_DIRS[key]));
+    const shared = dirs.find((dir, index) => dirs.indexOf(dir) !== index);
+    if (shared !== undefined) {
+      throw new Error(
+        `tenants: ${key} "${shared}" is used by more than one tenant, set it for every tenant`,
+      );
     }
   }
+  /**
+   * Presets and panel client of every tenant set up so far
+   */
+  const registered: Array<{
+    getPresets: () => PresetSnapshot;
+    xui: Awaited<ReturnType<typeof get3xui>> | null;
+  }> = [];
 
-  if (existsSync(overridesDir)) {
-    for (const file of readdirSync(overridesDir).filter((f) =>
-      f.endsWith('.json'),
-    )) {
-      const code = parse(file).name.toUpperCase();
-      try {
-        OVERRIDE_PRESETS[code] = parseWithIncludes(join(overridesDir, file), false);
-        app.log.info(`Loaded overrides for ${code}`);
-      } catch (err) {
-        app.log.error(`Failed to load ${file}: ${err}`);
-      }
-    }
+  const metrics = metricsOptions
+    ? createMetrics({
+        getPresets: () => registered.map((tenant) => tenant.getPresets()),
+        getPanelStatus: allTenants.some((tenant) => tenant.xuiOptions)
+          ? () => registered.flatMap(({ xui }) => (xui ? [xui.getStatus()] : []))
+          : undefined,
+      })
+    : null;
+
+  /**
+   * What a request resolved to, recorded in metrics once the response is sent
+   */
+  const requestInfo = new WeakMap<
+    FastifyRequest,
+    { format: string; iso: string; isEU: boolean; tags: string[] }
+  >();
+  if (metrics) {
+    app.addHook('onResponse', async (req, reply) => {
+      const info = requestInfo.get(req);
+      if (!info) return;
+      const status = String(reply.statusCode);
+      metrics.requests.inc({
+        iso: info.iso || 'unknown',
+        eu: String(info.isEU),
+        format: info.format,
+        status,
+      });
+      info.tags.forEach((tag) => metrics.tagRequests.inc({ tag, status }));
+    });
   }
 
-  const tagsDir = join(rulesDir, 'tags');
-  if (existsSync(tagsDir)) {
-    for (const dirent of readdirSync(tagsDir, { withFileTypes: true })) {
-      if (!dirent.isDirectory()) continue;
-      const tagName = dirent.name;
-      const tagPath = join(tagsDir, tagName);
-      const preset: TagPreset = { base: [], default: [], country: {} };
+  /**
+   * Routes of one tenant, with its own presets, upstream client, 3x-ui client and country cache
+   */
+  const registerTenant = async ({
+    upstreamUrl,
+    secretUrl,
+    rulesDir = TENANT_DIRS.rulesDir,
+    overridesDir = TENANT_DIRS.overridesDir,
+    outboundsDir = TENANT_DIRS.outboundsDir,
+    countryCache: countryCacheOption = {},
+    publicURL,
+    xuiOptions,
+    explainToken,
+    adminToken,
+    transform,
+  }: TenantOptions) => {
+    /**
+     * Cache for last country lookup to each user
+     */
+    const countryCache =
+      'get' in countryCacheOption
+        ? countryCacheOption
+        : await createCountryCache({
+            onError: (err) => app.log.error(`Country cache write failed: ${err}`),
+            ...countryCacheOption,
+          });
+    app.addHook('onClose', async () => countryCache.close?.());
 
-      const baseFile = join(tagPath, 'base.json');
-      if (existsSync(baseFile)) {
-        try {
-          preset.base = parseWithIncludes(baseFile, true);
-        } catch (err) {
-          app.log.error(`Failed to load ${baseFile}: ${err}`);
-        }
-      }
+    const upstream = createUpstreamClient(upstreamUrl, upstreamOptions);
 
-      const defaultFile = join(tagPath, 'default.json');
-      if (existsSync(defaultFile)) {
-        try {
-          preset.default = parseWithIncludes(defaultFile, true);
-        } catch (err) {
-          app.log.error(`Failed to load ${defaultFile}: ${err}`);
-        }
-      }
+    const xui = xuiOptions ? await get3xui(xuiOptions) : null;
+    if (xui) app.addHook('onClose', async () => xui.stop());
+    const getUser = async (
+      subscriptionId: string,
+    ): Promise<{ email?: string } & ReturnType<typeof parseCommentDirectives>> =>
+      xui ? xui.getUser(subscriptionId) : { directives: { tags: [] }, issues: [] };
 
-      for (const file of readdirSync(tagPath).filter(
-        (f) => f.endsWith('.json') && !['base.json', 'default.json'].includes(f),
-      )) {
-        const code = parse(file).name.toUpperCase();
-        try {
-          preset.country[code] = parseWithIncludes(join(tagPath, file), true);
-        } catch (err) {
-          app.log.error(`Failed to load ${file}: ${err}`);
+    const presetLoader = createPresetLoader({ rulesDir, overridesDir, outboundsDir, validation });
+    const initial = presetLoader.load();
+    initial.messages.forEach((message) => app.log.info(message));
+    initial.warnings.forEach((issue) =>
+      app.log.warn(`Dropped invalid entry – ${formatIssue(issue)}`),
+    );
+    for (const { file, error } of initial.errors) {
+      app.log.error(`Failed to load ${file}: ${error}`);
+    }
+    if (validation === 'strict' && initial.errors.length) {
+      throw new Error(
+        `Refusing to start: ${initial.errors.length} preset file(s) failed validation`,
+      );
+    }
+    /**
+     * Current presets, replaced as a whole so a request never sees a half-reloaded state
+     */
+    let presets: PresetSnapshot = initial.snapshot;
+
+    /**
+     * Reload presets after changes in `paths`, keeping the previous presets when a file fails
+     */
+    const reloadPresets = (paths: string[]) => {
+      paths.forEach((path) => presetLoader.invalidate(path));
+      const { snapshot, errors, warnings, messages } = presetLoader.load();
+      if (errors.length) {
+        for (const { file, error } of errors) {
+          app.log.error(`Failed to reload ${file}: ${error}`);
         }
+        app.log.error('Presets reload failed – keeping the previous presets');
+        return errors;
       }
+      messages.forEach((message) => app.log.debug(message));
+      warnings.forEach((issue) => app.log.warn(`Dropped invalid entry – ${formatIssue(issue)}`));
+      presets = snapshot;
+      app.log.info(`Presets reloaded after changes in ${paths.join(', ')}`);
+      return errors;
+    };
 
-      TAGS_PRESETS[tagName] = preset;
-      app.log.info(`Loaded tag preset ${tagName}`);
+    if (watch) {
+      const watcher = watchPresets({
+        dirs: presetLoader.watchedDirs,
+        onChange: (paths) => reloadPresets(paths),
+        onError: (err) => app.log.error(`Presets watcher failed: ${err}`),
+      });
+      app.addHook('onClose', async () => watcher.close());
     }
-  } else {
-    app.log.info('No tags directory found – skipping tag presets');
-  }
 
-  app.get<{ Params: { subscriptionId: string } }>(
-    `/${secretUrl}/json/:subscriptionId`,
-    async (req, reply) => {
+    /**
+     * Preset rules of a request, grouped by the stage that produced them.
+     * Upstream is not involved, so the admin API can resolve rules for any user.
+     */
+    const resolveRules = (
+      {
+        rules: RULE_PRESETS,
+        reverse: REVERSE_PRESETS,
+        tags: TAGS_PRESETS,
+        users: USER_PRESETS,
+        userOverrides: USER_OVERRIDES,
+        clients: CLIENT_PRESETS,
+        origins,
+        templated,
+      }: PresetSnapshot,
+      {
+        subId,
+        email,
+        iso,
+        isEU,
+        regions,
+        tags,
+        sameCountryDirect,
+        query,
+        headers,
+        client,
+      }: RuleRequest,
+    ) => {
+      /**
+       * Base rules of a tag, user or client preset, then its country, region or default rules
+       */
+      const presetRules = (preset: TagPreset) => {
+        const regionMatch = regions.find((region) => preset.country[region]);
+        const countryRules =
+          preset.country[iso] ?? (regionMatch ? preset.country[regionMatch] : preset.default);
+        return [...preset.base, ...countryRules];
+      };
+      /**
+       * Per-user files are named by subId or by the 3x-ui email, subId first
+       */
+      const findUserKey = (entries: Record<string, unknown>) =>
+        [subId, email]
+          .map((key) => key?.toLowerCase())
+          .find((key): key is string => Boolean(key && entries[key]));
+      const userPresetKey = findUserKey(USER_PRESETS);
+      const userOverrideKey = findUserKey(USER_OVERRIDES);
+
+      const userStages = userPresetKey
+        ? [{ stage: `user:${userPresetKey}`, rules: presetRules(USER_PRESETS[userPresetKey]) }]
+        : [];
+      const tagStages = tags.map((tag) => {
+        const preset = TAGS_PRESETS[tag];
+        return { stage: `tag:${tag}`, rules: preset ? presetRules(preset) : [] };
+      });
+      const clientStages =
+        client && CLIENT_PRESETS[client.id]
+          ? [{ stage: `client:${client.id}`, rules: presetRules(CLIENT_PRESETS[client.id]) }]
+          : [];
+      const reverseStages = REVERSE_PRESETS
+        .filter((p) => !p.exclude.has(iso) && !regions.some((region) => p.exclude.has(region)))
+        .map((p) => ({ stage: `reverse:${p.name}`, rules: p.rules }));
+
+      const sameCountryRules: XrayRule[] = [];
+      if (iso && sameCountryDirect) {
+        const tldRule = buildDomainRule(COUNTRY_TLDS.get(iso) || []);
+        if (tldRule) sameCountryRules.push(tldRule);
+        sameCountryRules.push({
+          type: 'field',
+          ip: [`geoip:${iso.toLowerCase()}`],
+          outboundTag: 'direct',
+          remarks: 'directSameCountry',
+        });
+      }
+
+      /**
+       * Direct rule for current service to avoid wrong routing on update
+       */
+      const directRules: XrayRule[] = publicURL
+        ? [
+            {
+              type: 'field',
+              domain: [`domain:${publicURL}`],
+              outboundTag: 'direct',
+            },
+          ]
+        : [];
+
+      const conditionContext: RequestContext = {
+        iso,
+        isEU,
+        regions,
+        tags,
+        subId,
+        query,
+        headers,
+        client: client?.id,
+        now: now(),
+      };
+      const variables: RequestVariables = { iso, iso_lower: iso.toLowerCase(), subId, publicURL };
+      /**
+       * Request variables filled in, `null` when one has no value for this request
+       */
+      const fillVariables = <T extends object>(value: T, tag?: string): T | null =>
+        templated.has(value) ? substituteVariables(value, { ...variables, tag }) : value;
+
+      const clientAdapter = clientApps.adapterFor(client);
+
+      /**
+       * Rules whose `when` holds for this request, with `when` stripped and variables filled in.
+       * A rule using a variable without value, such as `${iso}` for an unknown country, is skipped,
+       * and so is a rule the client app cannot have.
+       */
+      const prepareRules = (presetRules: XrayRule[], tag?: string) =>
+        presetRules.flatMap((rule) => {
+          const { when, ...rest } = rule as XrayRule & { when?: Condition };
+          if (when !== undefined && !evaluateCondition(when, conditionContext)) return [];
+          const filled = fillVariables(when === undefined ? rule : rest, tag);
+          const prepared = filled && clientAdapter ? clientAdapter.rule(filled) : filled;
+          if (!prepared) return [];
+          if (prepared !== rule) {
+            // Keep the provenance for explain mode
+            const origin = origins.get(rule);
+            if (origin) origins.set(prepared, origin);
+          }
+          return [prepared];
+        });
+
+      /**
+       * Rules in application order, grouped by the stage that produced them
+       */
+      const stages: Array<{ stage: string; rules: XrayRule[] }> = [
+        { stage: 'direct', rules: directRules },
+        { stage: 'base', rules: RULE_PRESETS['BASE'] ?? [] },
+        ...userStages,
+        ...tagStages,
+        ...clientStages,
+        { stage: 'sameCountry', rules: sameCountryRules },
+        ...reverseStages,
+        ...regions.map((region) => ({
+          stage: `region:${region}`,
+          rules: RULE_PRESETS[region] ?? [],
+        })),
+        {
+          stage: RULE_PRESETS[iso] ? 'country' : 'default',
+          rules: RULE_PRESETS[iso] ?? RULE_PRESETS['DEFAULT'] ?? [],
+        },
+      ].map(({ stage, rules }) => ({
+        stage,
+        rules: prepareRules(rules, stage.startsWith('tag:') ? stage.slice(4) : undefined),
+      }));
+
+      return { stages, userPresetKey, userOverrideKey, fillVariables, clientAdapter };
+    };
+
+    const handleSubscription = async (
+      req: FastifyRequest<{ Params: { subscriptionId: string } }>,
+      reply: FastifyReply,
+      routeFormat?: OutputFormat,
+    ) => {
       const query = req.query as QueryType;
       const { subscriptionId } = req.params;
-      const { tags, country: countryOverride, isEU: isEUOverride } = query;
+      // One snapshot for the whole request, even if presets are reloaded meanwhile
+      const snapshot = presets;
+      const {
+        overrides: OVERRIDE_PRESETS,
+        tags: TAGS_PRESETS,
+        tagOverrides: TAG_OVERRIDES,
+        userOverrides: USER_OVERRIDES,
+        outbounds: OUTBOUND_PRESETS,
+        tagOutbounds: TAG_OUTBOUNDS,
+        regions: REGIONS,
+        origins,
+      } = snapshot;
+      const explain = /^(1|true|yes|on)$/i.test(String(query.explain ?? ''));
+      const queryFormat = typeof query.format === 'string' ? query.format : undefined;
+      const info = {
+        format: routeFormat ?? queryFormat ?? 'xray',
+        iso: '',
+        isEU: false,
+        tags: [] as string[],
+      };
+      requestInfo.set(req, info);
+      if (queryFormat && !OUTPUT_FORMATS.includes(queryFormat as OutputFormat)) {
+        info.format = 'unknown';
+        return reply.code(400).send({ error: 'unknown_format' });
+      }
+      if (explain && (!explainToken || !hasBearerToken(req.headers, explainToken))) {
+        return reply.code(401).send({ error: 'unauthorized' });
+      }
+      const { tags, country: queryCountry, isEU: queryIsEU } = query;
 
-      const tagsList =
-        ((Array.isArray(tags) ? tags : (tags?.split(',') || [])).filter(Boolean) as string[]) ||
-        [];
+      const tagsList = parseTagsQuery(tags);
 
-      const userTags = getUserTags(subscriptionId);
+      const { email, directives, issues: directiveIssues } = await getUser(subscriptionId);
+      directiveIssues.forEach((issue) => req.log.warn(`Comment of ${subscriptionId}: ${issue}`));
+      const userTags = directives.tags;
 
       const activeTags = [...tagsList, ...userTags];
+      const client = clientApps.detectClient(req.headers['user-agent']);
+
+      /**
+       * Settings given in the request win over the client comment,
+       * which wins over GeoIP and the service options
+       */
+      let commentFormat = directives.format;
+      if (commentFormat && !OUTPUT_FORMATS.includes(commentFormat as OutputFormat)) {
+        req.log.warn(`Comment of ${subscriptionId}: unknown format "${commentFormat}"`);
+        commentFormat = undefined;
+      }
+      const format = (routeFormat ?? queryFormat ?? commentFormat ?? 'xray') as OutputFormat;
+      info.format = format;
+      const countryOverride =
+        typeof queryCountry === 'string' && queryCountry ? queryCountry : directives.country;
+      const isEUOverride = queryIsEU ?? directives.eu;
+      const sameCountryDirect = directives.directSameCountry ?? directSameCountry;
 
       const ip = getClientIp(req.headers, req.ip);
       let iso = '';
       let isEU = false;
-      try {
-        const countryInfo = await ipLookup(ip);
-        iso = countryInfo?.country?.toUpperCase() || '';
-        isEU = countryInfo?.eu || false;
-      } catch (err) {
-        req.log.warn(`GeoIP failed for ${ip}: ${err}`);
+      const countryInfo = await geoIpLookup(ip);
+      if (countryInfo) {
+        iso = countryInfo.country;
+        isEU = countryInfo.eu;
+      } else {
+        metrics?.geoipFailures.inc();
+        req.log.warn(`GeoIP failed for ${ip}: no provider knows this address`);
       }
-      // Override from query params if provided
-      if (countryOverride && typeof countryOverride === 'string') {
-        const co = countryOverride.toUpperCase();
-        if (co === 'EU') {
-          // Special token: mark as EU region, keep ISO unchanged
-          isEU = true;
-        } else {
-          iso = co;
-        }
+      // Override from query params or the client comment if provided
+      const forcedRegions = new Set<string>();
+      if (countryOverride) {
+        const forced = parseCountryOverride(countryOverride, REGIONS);
+        if (forced.isEU) isEU = true;
+        if (forced.region) forcedRegions.add(forced.region);
+        if (forced.iso) iso = forced.iso;
       }
       if (typeof isEUOverride !== 'undefined') {
         const val =
@@ -216,125 +503,610 @@ export async function createServer({
             : /^(1|true|yes|on)$/i.test(String(isEUOverride));
         isEU = Boolean(val);
       }
-      if (iso) USERS_COUNTRY_CACHE.set(subscriptionId, iso);
-      if (!iso && USERS_COUNTRY_CACHE.has(subscriptionId))
-        iso = USERS_COUNTRY_CACHE.get(subscriptionId) || '';
-
-      let original: any;
-      try {
-        const res = await fetch(`${upstreamUrl}/${subscriptionId}`);
-        if (!res.ok)
-          return reply.code(res.status).send({ error: 'upstream_error' });
-        original = await res.json();
-
-        /**
-         * Forward original headers (except content-length),
-         * like "profile-update-interval" or "subscription-userinfo"
-         * to keep original behavior
-         */
-
-        const hopByHop = new Set([
-          'connection',
-          'keep-alive',
-          'proxy-authenticate',
-          'proxy-authorization',
-          'te',
-          'trailer',
-          'transfer-encoding',
-          'upgrade',
-        ]);
-        for (const [k, v] of res.headers.entries()) {
-          if (!hopByHop.has(k.toLowerCase())) reply.header(k, v);
+      if (iso) {
+        await countryCache.set(subscriptionId, { iso, isEU });
+      } else {
+        const cached = await countryCache.get(subscriptionId);
+        if (cached) {
+          metrics?.countryCacheFallbacks.inc();
+          iso = cached.iso;
+          isEU = isEU || cached.isEU;
+        }
+      }
+      const visitorRegions = resolveRegions(REGIONS, iso, isEU, forcedRegions);
+      info.iso = /^[A-Z]{2}$/.test(iso) ? iso : '';
+      info.isEU = isEU;
+      // Only tags with presets become labels, query values are arbitrary
+      info.tags = [
+        ...new Set(
+          activeTags.map((tag) => (TAGS_PRESETS[tag] || TAG_OVERRIDES[tag] ? tag : 'unknown')),
+        ),
+      ];
+
+      const endUpstreamTimer = metrics?.upstreamDuration.startTimer();
+      const fetched = await upstream.get(subscriptionId);
+      endUpstreamTimer?.({ cache: fetched.ok ? fetched.cache : 'error' });
+      if (!fetched.ok || fetched.cache === 'stale') {
+        metrics?.upstreamErrors.inc({ stale: String(fetched.ok) });
+      }
+      if (!fetched.ok) {
+        if ('status' in fetched) {
+          return reply.code(fetched.status).send({ error: 'upstream_error' });
         }
-      } catch (err) {
-        req.log.error(`Fetch failed: ${err}`);
+        req.log.error(`Fetch failed: ${fetched.error}`);
         return reply.code(502).send({ error: 'bad_gateway' });
       }
+      if (fetched.cache === 'stale') {
+        req.log.warn(`Fetch failed, serving the cached subscription: ${fetched.error}`);
+      }
+      const original: any = fetched.body;
 
-      const baseRules = RULE_PRESETS['BASE'] ?? [];
-      const euRules = isEU ? RULE_PRESETS['EU'] ?? [] : [];
-      const countryRules = RULE_PRESETS[iso] ?? RULE_PRESETS['DEFAULT'] ?? [];
-      const reverseRules = REVERSE_PRESETS
-        .filter((p) => (!p.excludeEU || !isEU) && !p.exclude.has(iso))
-        .flatMap((p) => p.rules);
-      const tagsRules = activeTags
-        .flatMap((tag) => {
-          const preset = TAGS_PRESETS[tag];
-          if (!preset) return [];
-          const countryRules = preset.country[iso] ?? preset.default;
-          return [...preset.base, ...countryRules];
-        });
+      /**
+       * Forward original headers,
+       * like "profile-update-interval" or "subscription-userinfo"
+       * to keep original behavior
+       */
+      for (const [k, v] of fetched.headers) reply.header(k, v);
+      reply.header('x-upstream-cache', fetched.cache);
 
-      const sameCountryRules: XrayRule[] = [];
-      if (iso && directSameCountry) {
-        const tldRule = buildDomainRule(COUNTRY_TLDS.get(iso) || []);
-        if (tldRule) sameCountryRules.push(tldRule);
-        sameCountryRules.push({
-          type: 'field',
-          ip: [`geoip:${iso.toLowerCase()}`],
-          outboundTag: 'direct',
-          remarks: 'directSameCountry',
+      const { stages, userPresetKey, userOverrideKey, fillVariables, clientAdapter } =
+        resolveRules(snapshot, {
+          subId: subscriptionId,
+          email,
+          iso,
+          isEU,
+          regions: visitorRegions,
+          tags: activeTags,
+          sameCountryDirect,
+          query,
+          headers: req.headers,
+          client,
         });
+      const rules: XrayRule[] = stages.flatMap(({ rules }) => rules);
+      /**
+       * Upstream rules the client app can have, for `prepend` and `append`
+       */
+      const upstreamRulesOf = (config: JsonOptions) =>
+        clientAdapter
+          ? getUpstreamRules(config).flatMap((rule) => {
+              const adapted = clientAdapter.rule(rule);
+              return adapted === null ? [] : [adapted];
+            })
+          : getUpstreamRules(config);
+
+      const namedOverride = directives.override
+        ? OVERRIDE_PRESETS[directives.override.toUpperCase()]
+        : undefined;
+      if (directives.override && !namedOverride) {
+        req.log.warn(`Comment of ${subscriptionId}: no override preset "${directives.override}"`);
       }
+      const fillOverride = (layer: JsonOptions | undefined, tag?: string) => {
+        if (!layer) return undefined;
+        const filled = fillVariables(layer, tag);
+        if (!filled) req.log.warn('Override layer skipped: a variable it uses has no value');
+        return filled ?? undefined;
+      };
 
       /**
-       * Direct rule for current service to avoid wrong routing on update
+       * Override layers, applied in order:
+       * BASE → regions → country (or DEFAULT) → tags → `override=` comment directive → user.
+       * Rules always come from presets, an override only tunes routing settings.
        */
-      const directRules: XrayRule[] = publicURL
-        ? [
-            {
-              type: 'field',
-              domain: [`domain:${publicURL}`],
-              outboundTag: 'direct',
-            },
-          ]
-        : [];
+      const overrideLayers = [
+        OVERRIDE_PRESETS['BASE'],
+        ...visitorRegions.map((region) => OVERRIDE_PRESETS[region]),
+        OVERRIDE_PRESETS[iso] ?? OVERRIDE_PRESETS['DEFAULT'],
+        ...activeTags.map((tag) => fillOverride(TAG_OVERRIDES[tag], tag)),
+        namedOverride,
+        userOverrideKey ? USER_OVERRIDES[userOverrideKey] : undefined,
+      ]
+        .map((layer) => fillOverride(layer))
+        .filter((layer): layer is JsonOptions => Boolean(layer))
+        .map((layer) => {
+          if (!('rules' in asObject(layer.routing))) return layer;
+          const routing = { ...asObject(layer.routing) };
+          delete routing.rules;
+          return { ...layer, routing };
+        })
+        .map((layer) => (clientAdapter ? clientAdapter.override(layer) : layer));
+      const fillOutbounds = (list: JsonOptions[] | undefined, tag?: string) => {
+        if (!list) return [];
+        const filled = fillVariables(list, tag);
+        if (!filled) req.log.warn('Outbounds skipped: a variable they use has no value');
+        return filled ?? [];
+      };
+      /**
+       * Outbound definitions, merged into upstream `outbounds` by tag before the override layers:
+       * BASE → regions → country (or DEFAULT) → tags
+       */
+      const outboundsLayer: JsonOptions = {
+        [MERGE_STRATEGIES_KEY]: { outbounds: 'mergeBy:tag' },
+        outbounds: [
+          ...fillOutbounds(OUTBOUND_PRESETS['BASE']),
+          ...visitorRegions.flatMap((region) => fillOutbounds(OUTBOUND_PRESETS[region])),
+          ...fillOutbounds(OUTBOUND_PRESETS[iso] ?? OUTBOUND_PRESETS['DEFAULT']),
+          ...activeTags.flatMap((tag) => fillOutbounds(TAG_OUTBOUNDS[tag], tag)),
+        ],
+      };
+      const presetLayers = (outboundsLayer.outbounds as JsonOptions[]).length
+        ? [outboundsLayer, ...overrideLayers]
+        : overrideLayers;
 
-      const rules: XrayRule[] = [
-        ...directRules,
-        ...baseRules,
-        ...tagsRules,
-        ...sameCountryRules,
-        ...reverseRules,
-        ...euRules,
-        ...countryRules,
-      ];
+      const overrideDomainStrategy = overrideLayers
+        .map((layer) => asObject(layer.routing).domainStrategy)
+        .filter(Boolean)
+        .at(-1);
+      const countryDomainStrategy =
+        typeof domainStrategy === 'string'
+          ? domainStrategy
+          : domainStrategy?.[iso] ?? domainStrategy?.['DEFAULT'];
 
-      const merged = {
-        ...original,
-        ...(OVERRIDE_PRESETS[iso] ?? OVERRIDE_PRESETS['DEFAULT'] ?? {}),
-        remarks: `${original.remarks}${iso ? ` (${countries.find((c) => c.cca2 === iso)?.name.common})` : ''}`,
-        routing: {
-          domainStrategy: 'IPIfNonMatch',
-          rules,
-        },
+      const combineRules = <T>(own: T[], upstream: T[]): T[] =>
+        routingMerge === 'prepend'
+          ? [...own, ...upstream]
+          : routingMerge === 'append'
+            ? [...upstream, ...own]
+            : own;
+
+      /**
+       * Apply rules and overrides to a single Xray config
+       */
+      const applyPresets = (config: JsonOptions): JsonOptions => {
+        const upstreamRouting = asObject(config.routing);
+        const patched = applyOverrides(config, presetLayers, overrideMerge);
+        const ownRules = structuredClone(rules) as unknown as JsonValue[];
+        const routingRules = combineRules(ownRules, upstreamRulesOf(config));
+        const strategy =
+          overrideDomainStrategy ??
+          countryDomainStrategy ??
+          (routingMerge !== 'replace' ? upstreamRouting.domainStrategy : undefined) ??
+          'IPIfNonMatch';
+
+        const countryName = countries.find((c) => c.cca2 === iso)?.name.common;
+        const remarks = `${config.remarks}${iso ? ` (${countryName})` : ''}`;
+        const adaptedRemarks = clientAdapter ? clientAdapter.remarks(remarks) : remarks;
+
+        const merged: JsonOptions = {
+          ...patched,
+          routing: {
+            // Keep upstream balancers and other routing settings
+            ...asObject(patched.routing),
+            domainStrategy: strategy,
+            rules: routingRules,
+          },
+        };
+        if (adaptedRemarks === null) delete merged.remarks;
+        else merged.remarks = adaptedRemarks;
+        return merged;
       };
 
-      if (transform) {
+      const finalize = async (merged: JsonOptions, index?: number) => {
+        if (!transform) return merged;
         try {
           const { transformed, headers } = await transform({
             json: merged,
             iso,
             subId: subscriptionId,
             isEU,
+            regions: visitorRegions,
             query,
             requestHeaders: req.headers,
+            index,
+            client,
           });
           for (const headerName in headers) {
             reply.header(headerName, headers[headerName]);
           }
-          const finalRules = removeDuplicateRules(transformed as JsonOptions);
-          return reply.send(JSON.stringify(finalRules, null, 2));
+          return removeDuplicateRules(transformed as JsonOptions);
         } catch (err) {
+          metrics?.transformFailures.inc();
           app.log.error(`Transform failed: ${err}`);
-          const finalRules = removeDuplicateRules(merged as JsonOptions);
-          return reply.send(JSON.stringify(finalRules, null, 2));
+          return removeDuplicateRules(merged as JsonOptions);
+        }
+      };
+
+      /**
+       * Provenance of every rule in the merged config and what deduplication removes from it
+       */
+      const explainRules = (config: JsonOptions, merged: JsonOptions) => {
+        const provenance = combineRules(
+          stages.flatMap(({ stage, rules }) =>
+            rules.map((rule) => ({
+              stage,
+              file: origins.get(rule)?.file ?? null,
+              includes: origins.get(rule)?.includes ?? [],
+            })),
+          ),
+          upstreamRulesOf(config).map(() => ({
+            stage: 'upstream',
+            file: null,
+            includes: [] as string[],
+          })),
+        );
+        const mergedRules = asObject(merged.routing).rules as JsonValue[];
+        const removed: DuplicateRemoval[] = [];
+        removeDuplicateRules(merged, (removal) => removed.push(removal));
+        return {
+          rules: mergedRules.map((rule, index) => ({ index, ...provenance[index], rule })),
+          removed,
+        };
+      };
+
+      /**
+       * Rules pointing at an outbound or balancer the final config does not define,
+       * with the position of their config when upstream returned several
+       */
+      const danglingRefs: Array<DanglingRef & { config?: number }> = [];
+      const checkOutboundRefs = (config: JsonOptions, index?: number) => {
+        if (outboundCheck === 'off') return { config, dangling: [] };
+        const checked = dropDanglingRefs(config);
+        for (const ref of checked.dangling) {
+          metrics?.danglingRefs.inc({ field: ref.field });
+          req.log.warn(
+            `${outboundCheck === 'drop' ? 'Dropped rule' : 'Rule'} #${ref.index}` +
+              `${index !== undefined ? ` of config #${index}` : ''}: ` +
+              `${ref.field} "${ref.tag}" is not defined`,
+          );
+          danglingRefs.push({ ...ref, config: index });
+        }
+        return checked;
+      };
+
+      /**
+       * Shorten the final rule list without changing where any connection goes
+       */
+      const optimizeConfig = (config: JsonOptions, index?: number) => {
+        if (!optimize) return { config, optimization: null };
+        const { json, report } = optimizeConfigRules(config);
+        req.log.debug(
+          `Optimized rules${index !== undefined ? ` of config #${index}` : ''}: ` +
+            `${report.unreachableRules} unreachable and ${report.mergedRules} merged rules, ` +
+            `${report.removedEntries} entries removed`,
+        );
+        metrics?.optimizedRules.inc({ kind: 'unreachable' }, report.unreachableRules);
+        metrics?.optimizedRules.inc({ kind: 'merged' }, report.mergedRules);
+        metrics?.optimizedRules.inc({ kind: 'entry' }, report.removedEntries);
+        return { config: json, optimization: report };
+      };
+
+      const render = async (config: JsonOptions, index?: number) => {
+        const merged = applyPresets(config);
+        // Explain before transform, which may mutate the merged config
+        const explanation = explain ? explainRules(config, merged) : null;
+        const { config: checkedConfig, dangling } = checkOutboundRefs(
+          (await finalize(merged, index)) as JsonOptions,
+          index,
+        );
+        const { config: finalConfig, optimization } = optimizeConfig(checkedConfig, index);
+        return explanation
+          ? { index, config: finalConfig, ...explanation, dangling, optimization }
+          : finalConfig;
+      };
+
+      /**
+       * 3x-ui returns an array of full configs when a client has several inbounds or hosts
+       */
+      let output: unknown;
+      if (Array.isArray(original)) {
+        const configs: unknown[] = [];
+        for (const [index, config] of original.entries()) {
+          const isConfig = config && typeof config === 'object' && !Array.isArray(config);
+          configs.push(isConfig ? await render(config, index) : config);
+        }
+        output = configs;
+      } else {
+        output = await render(original);
+      }
+
+      // Explain mode lists the references instead of failing
+      if (outboundCheck === 'fail' && danglingRefs.length && !explain) {
+        return reply.code(500).send({ error: 'dangling_outbound_refs', references: danglingRefs });
+      }
+
+      if (explain) {
+        return reply.header('content-type', 'application/json; charset=utf-8').send(
+          JSON.stringify(
+            {
+              request: {
+                ip,
+                iso,
+                isEU,
+                regions: visitorRegions,
+                geoipProvider: countryInfo?.provider ?? null,
+                tags: { query: tagsList, comment: userTags, active: activeTags },
+                client,
+                directives,
+                user: {
+                  email: email ?? null,
+                  preset: userPresetKey ?? null,
+                  override: userOverrideKey ?? null,
+                },
+              },
+              // Deduplication only runs on the real response when a transform is set
+              deduplicated: Boolean(transform),
+              configs: Array.isArray(output) ? output : [output],
+            },
+            null,
+            2,
+          ),
+        );
+      }
+
+      if (format !== 'xray') {
+        // Rules are the same for every upstream config, apart from merged upstream rules
+        const config = Array.isArray(output)
+          ? output.find((item) => item && typeof item === 'object' && !Array.isArray(item))
+          : output;
+        const finalRules = (asObject(config as JsonOptions).routing as JsonOptions | undefined)
+          ?.rules as unknown as XrayRule[] | undefined;
+        const conversion =
+          format === 'singbox'
+            ? toSingBox(finalRules ?? [], formats.singbox)
+            : toMihomo(finalRules ?? [], formats.mihomo);
+        conversion.warnings.forEach((warning) => req.log.warn(`${format}: ${warning}`));
+        if (format === 'mihomo') {
+          return reply
+            .header('content-type', 'text/yaml; charset=utf-8')
+            .send(mihomoToYaml(conversion.document as { rules: string[] }));
         }
+        return reply
+          .header('content-type', 'application/json; charset=utf-8')
+          .send(JSON.stringify(conversion.document, null, 2));
       }
 
-      return reply.send(JSON.stringify(merged, null, 2));
-    },
-  );
+      return reply.send(JSON.stringify(output, null, 2));
+    };
+
+    app.get<{ Params: { subscriptionId: string } }>(
+      `/${secretUrl}/json/:subscriptionId`,
+      (req, reply) => handleSubscription(req, reply),
+    );
+    for (const format of ['singbox', 'mihomo'] as const) {
+      app.get<{ Params: { subscriptionId: string } }>(
+        `/${secretUrl}/${format}/:subscriptionId`,
+        (req, reply) => handleSubscription(req, reply, format),
+      );
+    }
+
+    if (adminToken) {
+      app.register(
+        async (admin) => {
+          admin.addHook('onRequest', async (req, reply) => {
+            if (!hasBearerToken(req.headers, adminToken)) {
+              return reply.code(401).send({ error: 'unauthorized' });
+            }
+          });
+
+          admin.get('/cache', async () => ({ size: await countryCache.size() }));
+          admin.delete('/cache', async () => {
+            await countryCache.clear();
+            return { cleared: true };
+          });
+          admin.get<{ Params: { subscriptionId: string } }>(
+            '/cache/:subscriptionId',
+            async (req, reply) => {
+              const entry = await countryCache.get(req.params.subscriptionId);
+              if (!entry) return reply.code(404).send({ error: 'not_found' });
+              return { subId: req.params.subscriptionId, ...entry };
+            },
+          );
+          admin.delete<{ Params: { subscriptionId: string } }>(
+            '/cache/:subscriptionId',
+            async (req) => ({
+              subId: req.params.subscriptionId,
+              deleted: await countryCache.delete(req.params.subscriptionId),
+            }),
+          );
+
+          admin.get('/presets', async () => {
+            const {
+              rules,
+              reverse,
+              overrides,
+              tags,
+              tagOverrides,
+              users,
+              userOverrides,
+              clients,
+              outbounds,
+              tagOutbounds,
+              regions,
+              sources,
+            } = presets;
+            const filesOf = (...lists: Array<object | undefined>) => [
+              ...new Set(lists.flatMap((list) => (list && sources.get(list)) || [])),
+            ];
+            const presetFiles = (preset?: TagPreset) =>
+              preset ? filesOf(preset.base, preset.default, ...Object.values(preset.country)) : [];
+            const named = (
+              presetsByName: Record<string, TagPreset>,
+              overridesByName: Record<string, JsonOptions>,
+            ) =>
+              [...new Set([...Object.keys(presetsByName), ...Object.keys(overridesByName)])].map(
+                (name) => ({
+                  name,
+                  files: presetFiles(presetsByName[name]),
+                  overrideFiles: filesOf(overridesByName[name]),
+                }),
+              );
+            return {
+              countries: Object.entries(rules).map(([name, list]) => ({
+                name,
+                rules: list.length,
+                files: filesOf(list),
+              })),
+              reverse: reverse.map(({ name, exclude, rules: list }) => ({
+                name,
+                exclude: [...exclude],
+                rules: list.length,
+                files: filesOf(list),
+              })),
+              overrides: Object.entries(overrides).map(([name, layer]) => ({
+                name,
+                files: filesOf(layer),
+              })),
+              tags: named(tags, tagOverrides),
+              users: named(users, userOverrides),
+              clients: named(clients, {}),
+              outbounds: [
+                ...Object.entries(outbounds),
+                ...Object.entries(tagOutbounds).map(
+                  ([tag, list]) => [`tags/${tag}`, list] as const,
+                ),
+              ].map(([name, list]) => ({
+                name,
+                tags: list.map((outbound) => outbound.tag),
+                files: filesOf(list),
+              })),
+              regions: regions.map(({ name, countries }) => ({ name, countries: [...countries] })),
+            };
+          });
+
+          /**
+           * Rules a user gets, without GeoIP and upstream: the country comes from `?country=`,
+           * the client comment or the country cache, in that order, and the client app
+           * from `?userAgent=`
+           */
+          admin.get('/resolve', async (req, reply) => {
+            const query = req.query as QueryType;
+            const subId = typeof query.subId === 'string' ? query.subId : '';
+            if (!subId) return reply.code(400).send({ error: 'missing_subId' });
+            const snapshot = presets;
+            const { email, directives } = await getUser(subId);
+            const cached = await countryCache.get(subId);
+            let iso = cached?.iso ?? '';
+            let isEU = cached?.isEU ?? false;
+            const forcedRegions = new Set<string>();
+            const country =
+              typeof query.country === 'string' && query.country
+                ? query.country
+                : directives.country;
+            if (country) {
+              const forced = parseCountryOverride(country, snapshot.regions);
+              if (forced.isEU) isEU = true;
+              if (forced.region) forcedRegions.add(forced.region);
+              if (forced.iso) iso = forced.iso;
+            }
+            const isEUOverride = query.isEU ?? directives.eu;
+            if (isEUOverride !== undefined) isEU = /^(1|true|yes|on)$/i.test(String(isEUOverride));
+            const regions = resolveRegions(snapshot.regions, iso, isEU, forcedRegions);
+            const tags = [...parseTagsQuery(query.tags), ...directives.tags];
+            const client = clientApps.detectClient(
+              typeof query.userAgent === 'string' ? query.userAgent : undefined,
+            );
+
+            const { stages, userPresetKey, userOverrideKey } = resolveRules(snapshot, {
+              subId,
+              email,
+              iso,
+              isEU,
+              regions,
+              tags,
+              sameCountryDirect: directives.directSameCountry ?? directSameCountry,
+              query,
+              headers: req.headers,
+              client,
+            });
+            return {
+              request: {
+                subId,
+                iso,
+                isEU,
+                regions,
+                tags,
+                client,
+                user: {
+                  email: email ?? null,
+                  preset: userPresetKey ?? null,
+                  override: userOverrideKey ?? null,
+                },
+              },
+              rules: stages.flatMap(({ stage, rules }) =>
+                rules.map((rule) => ({
+                  stage,
+                  file: snapshot.origins.get(rule)?.file ?? null,
+                  includes: snapshot.origins.get(rule)?.includes ?? [],
+                  rule,
+                })),
+              ),
+            };
+          });
+
+          /**
+           * Write a rule file below `rulesDir` once it validates, then reload the presets
+           */
+          admin.put<{ Params: { '*': string } }>('/rules/*', async (req, reply) => {
+            const file = posix.normalize(req.params['*']);
+            const problems = presetLoader.checkRuleFile(file, req.body);
+            if (problems.length) {
+              return reply.code(400).send({ error: 'invalid_rules', file, problems });
+            }
+            const path = join(rulesDir, file);
+            const created = !existsSync(path);
+            mkdirSync(dirname(path), { recursive: true });
+            writeFileSync(path, `${JSON.stringify(req.body, null, 2)}\n`);
+            app.log.info(`Admin API ${created ? 'created' : 'replaced'} rule file ${path}`);
+            const errors = reloadPresets([path]);
+            return reply.code(created ? 201 : 200).send({
+              file,
+              created,
+              reloaded: !errors.length,
+              errors: errors.map(({ file, error }) => ({ file, error: String(error) })),
+            });
+          });
+
+          admin.post('/reload', async (_, reply) => {
+            const errors = reloadPresets(presetLoader.watchedDirs);
+            if (!errors.length) return { reloaded: true };
+            return reply.code(422).send({
+              reloaded: false,
+              errors: errors.map(({ file, error }) => ({ file, error: String(error) })),
+            });
+          });
+
+          /**
+           * Clients of the last 3x-ui client list, with their tags and other comment directives
+           */
+          admin.get('/clients', async (_, reply) => {
+            if (!xui) return reply.code(404).send({ error: 'xui_not_configured' });
+            const { lastSuccessAt, failures } = xui.getStatus();
+            return { lastSuccessAt, failures, clients: xui.getClients() };
+          });
+        },
+        { prefix: `/${secretUrl}/admin` },
+      );
+    }
+
+    return { getPresets: () => presets, xui };
+  };
+
+  for (const tenant of allTenants) {
+    registered.push(await registerTenant(tenant));
+  }
+
+  if (metrics) {
+    const { port, host = '0.0.0.0', token } = metricsOptions!;
+    const serveMetrics = async (req: FastifyRequest, reply: FastifyReply) => {
+      if (token && !hasBearerToken(req.headers, token)) {
+        return reply.code(401).send({ error: 'unauthorized' });
+      }
+      return reply
+        .header('content-type', metrics.registry.contentType)
+        .send(await metrics.registry.metrics());
+    };
+
+    if (port !== undefined) {
+      const metricsApp = Fastify({ logger: false });
+      metricsApp.get('/metrics', serveMetrics);
+      app.addHook('onReady', async () => {
+        await metricsApp.listen({ port, host });
+        app.log.info(`Metrics served on ${host}:${port}/metrics`);
+      });
+      app.addHook('onClose', async () => metricsApp.close());
+    } else {
+      app.get(`/${firstTenant.secretUrl}/metrics`, serveMetrics);
+    }
+  }
 
   app.setNotFoundHandler((_, reply) => reply.code(204).send());
 
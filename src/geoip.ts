@@ -0,0 +1,123 @@
+import { readFileSync } from 'fs';
+import { lookup as ipLookup } from 'ip-location-api';
+import { Reader, type CountryResponse } from 'mmdb-lib';
+
+import { EU_COUNTRIES } from './constants.js';
+import { cidrContains, parseCidr, parseIp, type Cidr } from './utils/cidr.js';
+
+import type { GeoIpProvider, GeoIpResult } from './types.js';
+
+/**
+ * Lookup with `ip-location-api`, the default provider
+ */
+export const ipLocationApiProvider = ({
+  priority = 0,
+}: { priority?: number } = {}): GeoIpProvider => ({
+  name: 'ip-location-api',
+  priority,
+  lookup: async (ip) => {
+    const info = await ipLookup(ip);
+    if (!info?.country) return null;
+    return { country: info.country, eu: info.eu };
+  },
+});
+
+/**
+ * Lookup in a local MaxMind GeoLite2/GeoIP2 or DB-IP `.mmdb` country (or city) database
+ */
+export const mmdbProvider = ({
+  path,
+  priority = 0,
+}: {
+  path: string;
+  priority?: number;
+}): GeoIpProvider => {
+  const reader = new Reader<CountryResponse>(readFileSync(path));
+  return {
+    name: `mmdb:${path}`,
+    priority,
+    lookup: (ip) => {
+      const record = reader.get(ip);
+      const country = record?.country ?? record?.registered_country;
+      if (!country?.iso_code) return null;
+      return { country: country.iso_code, eu: country.is_in_european_union };
+    },
+  };
+};
+
+/**
+ * Lookup in a static CSV of `cidr,country` lines for operator-specific ranges.
+ * Empty lines, `#` comments and a header line are skipped; the most specific range wins.
+ */
+export const csvProvider = ({
+  path,
+  priority = 100,
+}: {
+  path: string;
+  priority?: number;
+}): GeoIpProvider => {
+  const ranges: Array<{ cidr: Cidr; result: GeoIpResult }> = [];
+  readFileSync(path, 'utf8')
+    .split(/\r?\n/)
+    .forEach((line, index) => {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#')) return;
+      const [network, country, eu] = trimmed.split(',').map((s) => s.trim());
+      const cidr = parseCidr(network);
+      if (!cidr) {
+        if (index === 0) return;
+        throw new Error(`${path}:${index + 1}: invalid CIDR "${network}"`);
+      }
+      if (!/^[A-Za-z]{2}$/.test(country || '')) {
+        throw new Error(`${path}:${index + 1}: invalid country "${country}"`);
+      }
+      ranges.push({
+        cidr,
+        result: {
+          country: country.toUpperCase(),
+          eu: eu ? /^(1|true|yes|on)$/i.test(eu) : undefined,
+        },
+      });
+    });
+  ranges.sort((a, b) => b.cidr.prefix - a.cidr.prefix);
+
+  return {
+    name: `csv:${path}`,
+    priority,
+    lookup: (ip) => {
+      const parsed = parseIp(ip);
+      if (!parsed) return null;
+      return ranges.find(({ cidr }) => cidrContains(cidr, parsed))?.result ?? null;
+    },
+  };
+};
+
+/**
+ * Ask providers by priority until one knows the address.
+ * A failing provider is reported and skipped.
+ */
+export const createGeoIpChain = (
+  providers: GeoIpProvider[],
+  onError?: (provider: GeoIpProvider, error: unknown) => void,
+) => {
+  const ordered = [...providers].sort(
+    (a, b) => (b.priority ?? 0) - (a.priority ?? 0),
+  );
+  return async (ip: string): Promise<(Required<GeoIpResult> & { provider: string }) | null> => {
+    for (const provider of ordered) {
+      try {
+        const result = await provider.lookup(ip);
+        if (!result?.country) continue;
+        const country = result.country.toUpperCase();
+        return {
+          country,
+          eu: result.eu ?? EU_COUNTRIES.has(country),
+          provider: provider.name,
+        };
+      } catch (err) {
+        onError?.(provider, err);
+      }
+    }
+    return null;
+  };
+};
@@ -1,2 +1,4 @@
 export * from './types.js';
 export * from './createServer.js';
+export * from './geoip.js';
+export * from './utils/fixtures.js';
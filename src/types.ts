@@ -17,6 +17,162 @@ export interface XrayRule {
   remarks?: string;
 }
 
+export type DomainStrategy = 'AsIs' | 'IPIfNonMatch' | 'IPOnDemand';
+
+/**
+ * How our rules are combined with the routing rules of the upstream config
+ * - `replace` – upstream rules are dropped
+ * - `prepend` – our rules first, then upstream rules
+ * - `append` – upstream rules first, then our rules
+ */
+export type RoutingMergeMode = 'replace' | 'prepend' | 'append';
+
+/**
+ * How an array in an override is combined with the array it patches
+ * - `replace` – the override array wins (JSON Merge Patch behaviour)
+ * - `append` / `prepend` – override items are added after / before the existing ones
+ * - `mergeBy:<key>` – items with the same `<key>` are deep-merged in place, new items are appended
+ */
+export type ArrayMergeStrategy = 'replace' | 'append' | 'prepend' | `mergeBy:${string}`;
+
+/** Array strategies by dot-separated path, e.g. `{ outbounds: 'mergeBy:tag', 'dns.servers': 'prepend' }` */
+export type ArrayMergeStrategies = Record<string, ArrayMergeStrategy>;
+
+export interface GeoIpResult {
+  /** ISO-3166 alpha-2 code */
+  country: string;
+  /** EU membership, derived from the country when the provider does not report it */
+  eu?: boolean;
+}
+
+export interface GeoIpProvider {
+  /** Name used in logs */
+  name: string;
+  /** Providers with a higher priority are asked first, the first answer wins (default `0`) */
+  priority?: number;
+  /** Resolve an address, `null` when the provider does not know it */
+  lookup: (ip: string) => Promise<GeoIpResult | null> | GeoIpResult | null;
+}
+
+export interface CountryCacheEntry {
+  iso: string;
+  isEU: boolean;
+  /** When the country was last seen, ms since epoch */
+  lastSeen: number;
+}
+
+/**
+ * Last known country of each user, used when GeoIP fails.
+ * Methods may return promises, for caches backed by a remote store.
+ */
+export interface CountryCache {
+  get: (subId: string) => CountryCacheEntry | undefined | Promise<CountryCacheEntry | undefined>;
+  set: (subId: string, entry: Pick<CountryCacheEntry, 'iso' | 'isEU'>) => void | Promise<void>;
+  /** Remove one user, resolving to whether an entry existed */
+  delete: (subId: string) => boolean | Promise<boolean>;
+  clear: () => void | Promise<void>;
+  size: () => number | Promise<number>;
+  /** Flush pending writes and release resources */
+  close?: () => void | Promise<void>;
+}
+
+export interface CountryCacheOptions {
+  /** Maximum number of users kept, least recently seen are evicted first (default 10 000). */
+  maxEntries?: number;
+  /** Entry lifetime after the country was last seen, in ms (default 30 days, `0` never expires). */
+  ttl?: number;
+  /** Keep the cache across restarts in a JSON file or a SQLite database. */
+  persist?: { type: 'file' | 'sqlite'; path: string };
+  /** Called when writing the persisted cache fails, the cache keeps working in memory. */
+  onError?: (error: unknown) => void;
+}
+
+export interface UpstreamOptions {
+  /** Serve a cached subscription without asking upstream for this long, in ms (default 0: always revalidate). */
+  ttl?: number;
+  /** Abort an upstream request after this long, in ms (default 10 000). */
+  timeout?: number;
+  /** Extra attempts after a network error, timeout or 5xx (default 2). */
+  retries?: number;
+  /** Delay before the first retry, doubled for each next one, in ms (default 500). */
+  retryDelay?: number;
+  /** Oldest cached response still served when upstream fails, in ms (default 7 days). */
+  maxStale?: number;
+  /** Maximum number of cached subscriptions, least recently fetched are evicted first (default 10 000). */
+  maxEntries?: number;
+}
+
+export interface MetricsOptions {
+  /**
+   * Serve `GET /metrics` on its own server listening on this port,
+   * started and stopped with the main server.
+   * Without it, metrics are served at `/<secretUrl>/metrics` and `token` is required.
+   */
+  port?: number;
+  /** Host of the separate metrics server (default `0.0.0.0`). */
+  host?: string;
+  /** Bearer token required to read the metrics. */
+  token?: string;
+}
+
+/** Output formats: Xray config, sing-box `route` section or mihomo (Clash Meta) `rules` */
+export type OutputFormat = 'xray' | 'singbox' | 'mihomo';
+
+export interface OutputFormatOptions {
+  /** Xray outbound tag → target outbound (mihomo proxy/group, sing-box outbound tag or `reject`). */
+  outbounds?: Record<string, string>;
+  /** sing-box only: URL templates of `geosite-*`/`geoip-*` rule sets, `{name}` is replaced. */
+  ruleSetUrls?: { geosite?: string; geoip?: string };
+}
+
+export interface FormatConversion<T> {
+  document: T;
+  /** Matchers the format cannot express, dropped from the output */
+  warnings: string[];
+}
+
+/** Client app recognized from the `User-Agent` of a subscription request */
+export interface DetectedClient {
+  /** Lower-cased client id, e.g. `v2rayng`, `hiddify`, `happ` */
+  id: string;
+  /** Version from the User-Agent, `null` when it has none */
+  version: string | null;
+}
+
+/**
+ * What a client app cannot handle, stripped or rewritten in the config it receives
+ */
+export interface ClientProfile {
+  /** Only for versions below this one (and for clients sending no version) */
+  before?: string;
+  /**
+   * Rule fields the client does not support. A rule matching on one of them is dropped,
+   * since matching without it would catch more traffic; other fields are removed.
+   */
+  dropRuleFields?: string[];
+  /** Rule fields the client knows under another name, e.g. `{ "ruleTag": "tag" }` */
+  renameRuleFields?: Record<string, string>;
+  /**
+   * `geosite:`/`geoip:` entries missing from the client's data files, as exact values
+   * or `"/regexp/"`. A rule left without any `domain` or `ip` entry is dropped.
+   */
+  dropCategories?: string[];
+  /** Keys of override layers the client does not support, as paths like `routing.balancers` */
+  dropOverrideKeys?: string[];
+  /** `drop` removes the config `remarks`, `ascii` strips non-ASCII characters from them */
+  remarks?: 'drop' | 'ascii';
+}
+
+export interface ClientAppOptions {
+  /**
+   * User-Agent patterns by client id, checked before the built-in ones.
+   * The first capture group, if any, is the version.
+   */
+  detect?: Record<string, RegExp | string>;
+  /** Capability profiles by client id; every profile whose `before` matches applies */
+  profiles?: Record<string, ClientProfile | ClientProfile[]>;
+}
+
 export interface XuiOptions {
   /** URL of the upstream 3x-ui endpoint (without trailing slash). */
   panelAddress: string;
@@ -26,6 +182,14 @@ export interface XuiOptions {
   inboundIds: Array<number | string>;
   /** Debug mode. */
   debug?: boolean;
+  /** How often the client list is refreshed, in ms (default 5 minutes, `0` disables). */
+  refreshInterval?: number;
+  /** First retry delay after a failed refresh, doubled on each failure up to `refreshInterval` (default 5 seconds). */
+  retryDelay?: number;
+  /** Minimum time between on-demand refreshes triggered by an unknown `subId`, in ms (default 30 seconds). */
+  onDemandRefreshInterval?: number;
+  /** Abort a panel request after this long, in ms, counting as a failed refresh (default 10 seconds). */
+  timeout?: number;
 }
 
 export type QueryType = Record<string, string | string[] | undefined>;
@@ -35,8 +199,14 @@ export interface TransformProps {
   iso: string,
   subId: string,
   isEU: boolean,
+  /** Regions of the requester from `regions.json` (`EU` included), in definition order */
+  regions?: string[],
   query?: QueryType,
   requestHeaders?: Record<string, string | string[] | undefined>,
+  /** Position of the config when upstream returned an array of configs */
+  index?: number,
+  /** Client app from the User-Agent, `null` when it is not recognized */
+  client?: DetectedClient | null,
 }
 
 export interface TransformResponse {
@@ -44,7 +214,10 @@ export interface TransformResponse {
   headers: Record<string, string>,
 }
 
-export interface CreateServerProps {
+/**
+ * Everything that belongs to one 3x-ui panel: its upstream, presets, panel client and country cache
+ */
+export interface TenantOptions {
   /** URL of the upstream 3x-ui endpoint (without trailing slash). */
   upstreamUrl: string;
   /** Secret path segment protecting this proxy, e.g. `abc123` → `/abc123/json/:id` */
@@ -53,23 +226,114 @@ export interface CreateServerProps {
   rulesDir: string;
   /** Directory with JSON overrides presets (`RU.json`, `EU.json`, `BASE.json` …). */
   overridesDir?: string;
-  /** Inject direct‑route rules for the requester’s own country. */
-  directSameCountry?: boolean;
-  /** Enable Fastify logger. */
-  logger?: boolean;
+  /** Directory with outbound presets, merged by tag (`RU.json`, `EU.json`, `BASE.json` …). */
+  outboundsDir?: string;
+  /** Country cache: options for the built-in LRU cache, or your own implementation. */
+  countryCache?: CountryCacheOptions | CountryCache;
   /** Public Domain URL of the service. */
   publicURL?: string;
   /** Options for the 3x-ui panel. */
   xuiOptions?: XuiOptions;
+  /**
+   * Bearer token enabling `?explain=1` on the JSON route, which returns the final config
+   * with the source of every rule. Explain mode is disabled when unset.
+   */
+  explainToken?: string;
+  /**
+   * Bearer token for the admin routes under `/<secretUrl>/admin/…`: country cache,
+   * presets, rule resolution, rule file uploads, reloads and the 3x-ui clients.
+   * Admin routes are not registered when unset.
+   */
+  adminToken?: string;
   /**
    * Transform the JSON before sending it to the client.
    * @param {Object} props.json - The JSON object to transform.
    * @param {String} props.iso - The ISO code of the country of the requester.
    * @param {String} props.subId - The subscription ID of the requester.
    * @param {Boolean} props.isEU - Whether the requester is in the Europe Union.
+   * @param {Array} props.regions - Regions of the requester, in definition order
    * @param {Object} props.query - Query params for subscription
    * @param {Object} props.requestHeaders - Original request headers params
+   * @param {Number} props.index - Position of the config when upstream returned an array of configs
+   * @param {Object} props.client - Client app from the User-Agent, `null` when it is not recognized
    * @returns The transformed JSON object.
    */
   transform?: (props: TransformProps) => Promise<TransformResponse>;
 }
+
+export interface CreateServerProps extends TenantOptions {
+  /** Inject direct‑route rules for the requester’s own country. */
+  directSameCountry?: boolean;
+  /** Enable Fastify logger. */
+  logger?: boolean;
+  /**
+   * How rule and override files are validated at load time (default `lenient`).
+   * `strict` refuses to start (or to reload) when any file has an invalid entry,
+   * `lenient` drops only the invalid rules/override sections and logs a warning for each.
+   */
+  validation?: 'strict' | 'lenient';
+  /** Watch `rulesDir` and `overridesDir` and reload presets on change (default `true`). */
+  watch?: boolean;
+  /**
+   * Proxies allowed to set forwarding headers: CIDRs like `10.0.0.0/8`, `2001:db8::/32`,
+   * or the aliases `loopback`, `linklocal`, `uniquelocal`.
+   * Forwarding headers are ignored unless the direct peer is listed (default: none).
+   */
+  trustedProxies?: string[];
+  /**
+   * Headers read from trusted proxies, in priority order (default `['x-forwarded-for']`).
+   * Every listed header must be set or stripped by the proxy, or clients can spoof it.
+   * `forwarded` and `x-forwarded-for` are walked right-to-left, skipping trusted proxies;
+   * any other header (`cf-connecting-ip`, `x-real-ip` …) is taken as the client address as is.
+   */
+  clientIpHeaders?: string[];
+  /**
+   * Array strategies for override files by path, e.g. `{ outbounds: 'mergeBy:tag' }`.
+   * Arrays without a strategy are replaced, as in JSON Merge Patch.
+   * A single override file can extend these with its own `$merge` key.
+   */
+  overrideMerge?: ArrayMergeStrategies;
+  /** How our rules are combined with upstream `routing.rules` (default `replace`). */
+  routingMerge?: RoutingMergeMode;
+  /**
+   * Shorten the final rule list: merge adjacent rules with the same target and drop
+   * rules and `domain`/`ip` entries that earlier rules always match first (default `false`).
+   */
+  optimize?: boolean;
+  /**
+   * `routing.domainStrategy`, for everyone or per ISO code with a `DEFAULT` fallback,
+   * e.g. `{ RU: 'IPOnDemand', DEFAULT: 'IPIfNonMatch' }`.
+   * An override file setting `routing.domainStrategy` wins over this option.
+   * When unset: the upstream value in `prepend`/`append` mode, otherwise `IPIfNonMatch`.
+   */
+  domainStrategy?: DomainStrategy | Record<string, DomainStrategy>;
+  /**
+   * GeoIP providers, asked by priority until one knows the address
+   * (default: `ipLocationApiProvider()` only).
+   */
+  geoip?: GeoIpProvider[];
+  /** Caching, timeout and retries of upstream subscription requests. */
+  upstream?: UpstreamOptions;
+  /** Prometheus metrics, disabled when unset. */
+  metrics?: MetricsOptions;
+  /** Outbound mapping and options of the non-Xray output formats. */
+  formats?: { singbox?: OutputFormatOptions; mihomo?: OutputFormatOptions };
+  /** Client app detection from the User-Agent and what each client gets stripped. */
+  clientApps?: ClientAppOptions;
+  /**
+   * Rules whose `outboundTag` or `balancerTag` the final config does not define (default `drop`):
+   * `drop` logs and removes them, `fail` answers the request with `500`, `off` keeps them.
+   */
+  outboundCheck?: 'drop' | 'fail' | 'off';
+  /**
+   * Current time of `weekday` and `hour` conditions (default: the system clock),
+   * pinned to render time-dependent rules reproducibly.
+   */
+  now?: () => Date;
+  /**
+   * More tenants next to the one set up by the `TenantOptions` of these props,
+   * each under its own `secretUrl`. Tenants only share the server-wide options,
+   * and no two tenants may use the same preset directory.
+   */
+  tenants?: TenantOptions[];
+}
@@ -0,0 +1,104 @@
+import { isIPv4, isIPv6 } from 'net';
+
+export interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+export interface Cidr extends ParsedIp {
+  prefix: number;
+}
+
+const BITS = { 4: 32, 6: 128 } as const;
+
+/**
+ * Named ranges accepted wherever a CIDR list is expected
+ */
+const CIDR_ALIASES: Record<string, string[]> = {
+  loopback: ['127.0.0.0/8', '::1/128'],
+  linklocal: ['169.254.0.0/16', 'fe80::/10'],
+  uniquelocal: ['10.0.0.0/8', '172.16.0.0/12', '192.168.0.0/16', 'fc00::/7'],
+};
+
+const parseIPv4 = (ip: string): bigint =>
+  ip.split('.').reduce((acc, part) => (acc << 8n) | BigInt(Number(part)), 0n);
+
+const parseIPv6 = (ip: string): bigint => {
+  let address = ip;
+  // Embedded IPv4 tail, e.g. ::ffff:192.0.2.1
+  const v4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (v4Tail) {
+    const v4 = parseIPv4(v4Tail[1]);
+    address = address.slice(0, -v4Tail[1].length) +
+      `${(v4 >> 16n).toString(16)}:${(v4 & 0xffffn).toString(16)}`;
+  }
+  const [head, tail] = address.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail ? tail.split(':') : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  const parts =
+    typeof tail === 'undefined'
+      ? headParts
+      : [...headParts, ...Array(missing).fill('0'), ...tailParts];
+  return parts.reduce((acc, part) => (acc << 16n) | BigInt(parseInt(part || '0', 16)), 0n);
+};
+
+/**
+ * Parse an IPv4/IPv6 address. IPv4-mapped IPv6 addresses are returned as IPv4.
+ */
+export const parseIp = (raw: string): ParsedIp | null => {
+  const ip = raw.trim().replace(/%.+$/, '');
+  if (isIPv4(ip)) return { version: 4, value: parseIPv4(ip) };
+  if (!isIPv6(ip)) return null;
+  const value = parseIPv6(ip);
+  if (value >> 32n === 0xffffn) return { version: 4, value: value & 0xffffffffn };
+  return { version: 6, value };
+};
+
+/**
+ * Parse `address/prefix` (or a bare address) into a network with its host bits cleared
+ */
+export const parseCidr = (raw: string): Cidr | null => {
+  const [address, prefixText] = raw.trim().split('/');
+  const ip = parseIp(address);
+  if (!ip) return null;
+  const bits = BITS[ip.version];
+  // `Number` would read `10.0.0.0/` as /0 and `/1e1` as /10
+  if (typeof prefixText !== 'undefined' && !/^\d{1,3}$/.test(prefixText)) return null;
+  let prefix = typeof prefixText === 'undefined' ? bits : Number(prefixText);
+  // A mapped IPv4 network keeps its prefix relative to the IPv4 part
+  if (ip.version === 4 && isIPv6(address.trim()) && typeof prefixText !== 'undefined') {
+    prefix -= 96;
+  }
+  if (prefix < 0 || prefix > bits) return null;
+  const hostBits = BigInt(bits - prefix);
+  return { ...ip, value: (ip.value >> hostBits) << hostBits, prefix };
+};
+
+export const cidrContains = (outer: Cidr, inner: ParsedIp | Cidr): boolean => {
+  if (outer.version !== inner.version) return false;
+  const innerPrefix = 'prefix' in inner ? inner.prefix : BITS[inner.version];
+  if (innerPrefix < outer.prefix) return false;
+  const hostBits = BigInt(BITS[outer.version] - outer.prefix);
+  return inner.value >> hostBits === outer.value >> hostBits;
+};
+
+/**
+ * Expand aliases and parse a list of CIDRs, throwing on invalid entries
+ */
+export const parseCidrList = (list: string[]): Cidr[] =>
+  list
+    .flatMap((entry) => CIDR_ALIASES[entry.trim().toLowerCase()] ?? [entry])
+    .map((entry) => {
+      const cidr = parseCidr(entry);
+      if (!cidr) throw new Error(`Invalid CIDR: ${entry}`);
+      return cidr;
+    });
+
+export const createCidrMatcher = (list: string[]) => {
+  const cidrs = parseCidrList(list);
+  return (ip: string) => {
+    const parsed = parseIp(ip);
+    return Boolean(parsed) && cidrs.some((cidr) => cidrContains(cidr, parsed!));
+  };
+};
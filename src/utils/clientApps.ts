@@ -0,0 +1,195 @@
+import { REGEXP_RE, regexpProblem } from './conditions.js';
+import { NON_MATCHER_FIELDS } from './validateRules.js';
+
+import type {
+  ClientAppOptions,
+  ClientProfile,
+  DetectedClient,
+  JsonOptions,
+  JsonValue,
+} from '../types.js';
+
+/**
+ * Known client apps, checked in order; the first capture group is the version
+ */
+const BUILT_IN_CLIENTS: Array<[string, RegExp]> = [
+  ['v2rayng', /\bv2rayNG(?:\/v?(\d+(?:\.\d+)*))?/i],
+  ['v2rayn', /\bv2rayN\b(?:\/v?(\d+(?:\.\d+)*))?/i],
+  ['streisand', /\bStreisand(?:\/v?(\d+(?:\.\d+)*))?/i],
+  ['hiddify', /\bHiddify(?:Next)?(?:\/v?(\d+(?:\.\d+)*))?/i],
+  ['foxray', /\bFoXray(?:\/v?(\d+(?:\.\d+)*))?/i],
+  ['happ', /\bHapp\b(?:\/v?(\d+(?:\.\d+)*))?/i],
+  ['shadowrocket', /\bShadowrocket(?:\/v?(\d+(?:\.\d+)*))?/i],
+  ['nekobox', /\bNekoBox(?:\/v?(\d+(?:\.\d+)*))?/i],
+];
+
+/** Adapters kept per id and version, see `adapterFor` */
+const MAX_CACHED_ADAPTERS = 1000;
+
+/** Rule fields holding `geosite:`/`geoip:` entries */
+const CATEGORY_FIELDS = ['domain', 'ip'];
+
+const isObject = (value: unknown): value is JsonOptions =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Negative when `a` is older than `b`, missing parts count as `0`
+ */
+const compareVersions = (a: string, b: string) => {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i += 1) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Remove a dotted path from an override layer, copying only what changes
+ */
+const dropPath = (layer: JsonOptions, [key, ...rest]: string[]): JsonOptions => {
+  if (!(key in layer)) return layer;
+  const copy = { ...layer };
+  if (!rest.length) {
+    delete copy[key];
+  } else if (isObject(layer[key])) {
+    copy[key] = dropPath(layer[key], rest);
+  }
+  return copy;
+};
+
+/**
+ * What a detected client gets stripped or rewritten, all profiles that apply combined
+ */
+export interface ClientAdapter {
+  /** The rule as the client understands it, `null` when the client cannot have it */
+  rule: <T>(rule: T) => T | null;
+  override: (layer: JsonOptions) => JsonOptions;
+  /** `null` when remarks are dropped */
+  remarks: (remarks: string) => string | null;
+}
+
+const createAdapter = (profiles: ClientProfile[]): ClientAdapter => {
+  const dropFields = profiles.flatMap((profile) => profile.dropRuleFields ?? []);
+  const renames = profiles.flatMap((profile) => Object.entries(profile.renameRuleFields ?? {}));
+  const categories = profiles.flatMap((profile) => profile.dropCategories ?? []);
+  const exact = new Set(categories.filter((pattern) => !REGEXP_RE.test(pattern)));
+  const patterns = categories
+    .map((pattern) => REGEXP_RE.exec(pattern))
+    .filter((match) => match !== null)
+    .map(([, source, flags]) => new RegExp(source, flags));
+  const dropsEntry = (entry: JsonValue) =>
+    typeof entry === 'string' && (exact.has(entry) || patterns.some((re) => re.test(entry)));
+  const overridePaths = profiles.flatMap((profile) =>
+    (profile.dropOverrideKeys ?? []).map((path) => path.split('.')),
+  );
+  const remarksMode = profiles.map((profile) => profile.remarks).filter(Boolean).at(-1);
+
+  return {
+    rule: (rule) => {
+      if (!isObject(rule)) return rule;
+      let adapted: JsonOptions = rule;
+      const copy = () => (adapted === rule ? (adapted = { ...rule }) : adapted);
+      for (const field of dropFields) {
+        if (!(field in adapted)) continue;
+        // Matching on less would catch traffic the rule never meant to
+        if (!NON_MATCHER_FIELDS.has(field)) return null;
+        delete copy()[field];
+      }
+      for (const field of CATEGORY_FIELDS) {
+        const entries = adapted[field];
+        if (!Array.isArray(entries) || !entries.some(dropsEntry)) continue;
+        const kept = entries.filter((entry) => !dropsEntry(entry));
+        if (!kept.length) return null;
+        copy()[field] = kept;
+      }
+      for (const [from, to] of renames) {
+        if (!(from in adapted)) continue;
+        const target = copy();
+        target[to] = target[from];
+        delete target[from];
+      }
+      return adapted as typeof rule;
+    },
+    override: (layer) => overridePaths.reduce(dropPath, layer),
+    remarks: (remarks) => {
+      if (remarksMode === 'drop') return null;
+      if (remarksMode === 'ascii') {
+        return remarks
+          .replace(/[^\x20-\x7E]/g, '')
+          .replace(/\s+/g, ' ')
+          .trim();
+      }
+      return remarks;
+    },
+  };
+};
+
+/**
+ * Client app detection and capability profiles, compiled once for the whole server
+ */
+export const createClientApps = ({ detect = {}, profiles = {} }: ClientAppOptions = {}) => {
+  const compile = (where: string, source: string, flags: string) => {
+    const problem = regexpProblem(source, flags);
+    if (problem) throw new Error(`clientApps.${where}: ${problem}`);
+    return new RegExp(source, flags);
+  };
+  const patterns: Array<[string, RegExp]> = [
+    ...Object.entries(detect).map(([id, pattern]): [string, RegExp] => [
+      id.toLowerCase(),
+      typeof pattern === 'string'
+        ? compile(`detect.${id}`, pattern, 'i')
+        : compile(`detect.${id}`, pattern.source, pattern.flags),
+    ]),
+    ...BUILT_IN_CLIENTS,
+  ];
+
+  const profilesById = new Map<string, ClientProfile[]>();
+  for (const [id, profile] of Object.entries(profiles)) {
+    const list = Array.isArray(profile) ? profile : [profile];
+    for (const pattern of list.flatMap((item) => item.dropCategories ?? [])) {
+      const regexp = REGEXP_RE.exec(pattern);
+      if (regexp) compile(`profiles.${id}`, regexp[1], regexp[2]);
+    }
+    profilesById.set(id.toLowerCase(), list);
+  }
+
+  /**
+   * Client app of a `User-Agent` header, `null` when none matches
+   */
+  const detectClient = (userAgent: string | string[] | undefined): DetectedClient | null => {
+    const value = Array.isArray(userAgent) ? userAgent.join(' ') : userAgent;
+    if (!value) return null;
+    for (const [id, pattern] of patterns) {
+      const match = pattern.exec(value);
+      if (match) return { id, version: match[1] ?? null };
+    }
+    return null;
+  };
+
+  /**
+   * Adapters by client id and version, clients send the same User-Agent on every update.
+   * Versions come from the request, so the cache starts over once it is full.
+   */
+  const adapters = new Map<string, ClientAdapter | null>();
+
+  /**
+   * Adapter for the profiles of a client, `null` when none applies
+   */
+  const adapterFor = (client: DetectedClient | null): ClientAdapter | null => {
+    if (!client) return null;
+    const key = `${client.id}/${client.version ?? ''}`;
+    if (adapters.has(key)) return adapters.get(key)!;
+    const applicable = (profilesById.get(client.id) ?? []).filter(
+      ({ before }) =>
+        !before || client.version === null || compareVersions(client.version, before) < 0,
+    );
+    const adapter = applicable.length ? createAdapter(applicable) : null;
+    if (adapters.size >= MAX_CACHED_ADAPTERS) adapters.clear();
+    adapters.set(key, adapter);
+    return adapter;
+  };
+
+  return { detectClient, adapterFor };
+};
@@ -0,0 +1,79 @@
+/**
+ * Per-user settings read from the 3x-ui client comment
+ */
+export interface CommentDirectives {
+  /** `tags=gaming,streaming` – activated tags, every `tags=` directive adds to the list */
+  tags: string[];
+  /** `country=DE` – country or region name, upper-cased */
+  country?: string;
+  /** `eu=true` */
+  eu?: boolean;
+  /** `directSameCountry=false` */
+  directSameCountry?: boolean;
+  /** `override=<name>` – override preset `overridesDir/<name>.json` */
+  override?: string;
+  /** `format=singbox` – output format of the JSON route */
+  format?: string;
+}
+
+const TRUE_RE = /^(1|true|yes|on)$/i;
+const FALSE_RE = /^(0|false|no|off)$/i;
+
+/**
+ * A directive is `key=value`. Directives are separated by `;`, a new line, or
+ * whitespace followed by the next `key=`. Keys are case-insensitive, values are
+ * trimmed, and text that is not a directive is ignored.
+ */
+const DIRECTIVE_RE = /(?:^|[\s;])([A-Za-z][\w-]*)=([^;\n]*?)(?=\s+[A-Za-z][\w-]*=|;|\n|$)/g;
+
+const parseBoolean = (value: string) =>
+  TRUE_RE.test(value) ? true : FALSE_RE.test(value) ? false : undefined;
+
+/**
+ * Whitelisted keys, by lower-cased name. A parser returns `undefined` for an invalid value.
+ */
+const DIRECTIVES: {
+  [K in Exclude<keyof CommentDirectives, 'tags'>]: (value: string) => CommentDirectives[K];
+} = {
+  country: (value) => (/^[A-Za-z]{2,}$/.test(value) ? value.toUpperCase() : undefined),
+  eu: parseBoolean,
+  directSameCountry: parseBoolean,
+  override: (value) => (/^[A-Za-z0-9._-]+$/.test(value) ? value : undefined),
+  format: (value) => (/^[a-z]+$/i.test(value) ? value.toLowerCase() : undefined),
+};
+
+const DIRECTIVE_KEYS = new Map(
+  (Object.keys(DIRECTIVES) as Array<keyof typeof DIRECTIVES>).map((key) => [key.toLowerCase(), key]),
+);
+
+/**
+ * Parse a client comment, e.g. `tags=gaming; country=DE eu=true`.
+ * Unknown keys are left alone, a later directive overrides an earlier one.
+ */
+export const parseCommentDirectives = (comment: string) => {
+  const directives: CommentDirectives = { tags: [] };
+  const issues: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = DIRECTIVE_RE.exec(comment))) {
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+    if (key === 'tags') {
+      value
+        .split(',')
+        .map((s) => s.trim())
+        .filter(Boolean)
+        .forEach((tag) => directives.tags.push(tag));
+      continue;
+    }
+    const name = DIRECTIVE_KEYS.get(key);
+    if (!name) continue;
+    const parsed = DIRECTIVES[name](value);
+    if (parsed === undefined) {
+      issues.push(`invalid value "${value}" for ${name}`);
+      continue;
+    }
+    Object.assign(directives, { [name]: parsed });
+  }
+  directives.tags = [...new Set(directives.tags)];
+  return { directives, issues };
+};
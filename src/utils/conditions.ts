@@ -0,0 +1,256 @@
+import { createHash } from 'crypto';
+
+/**
+ * What a `when` condition is evaluated against
+ */
+export interface RequestContext {
+  iso: string;
+  isEU: boolean;
+  /** Regions of the visitor, `EU` included */
+  regions: string[];
+  /** Active tags */
+  tags: string[];
+  subId: string;
+  query: Record<string, string | string[] | undefined>;
+  /** Request headers, lower-cased names */
+  headers: Record<string, string | string[] | undefined>;
+  /** Id of the client app from the User-Agent */
+  client?: string;
+  now?: Date;
+}
+
+/**
+ * `when` of a rule or a conditional group. Every key must hold (AND);
+ * `any`/`all`/`not` combine nested conditions.
+ */
+export type Condition = Record<string, unknown>;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/** A `"/pattern/flags"` string is a regular expression, anything else an exact value */
+export const REGEXP_RE = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Why a `/pattern/flags` cannot be compiled, `null` when it can.
+ * Compiled patterns are shared by every request, so the stateful `g` and `y` flags are refused.
+ */
+export const regexpProblem = (source: string, flags: string) => {
+  if (/[gy]/.test(flags)) return 'the "g" and "y" flags are not supported';
+  try {
+    new RegExp(source, flags);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : [value]);
+
+const validateStrings = (value: unknown) =>
+  asList(value).length && asList(value).every((v) => typeof v === 'string' && v)
+    ? null
+    : 'expected a string or an array of strings';
+
+/**
+ * `true`/`false` for present/absent, or strings and `/regexp/` patterns of which one must match
+ */
+const validateMatcher = (value: unknown) => {
+  if (typeof value === 'boolean') return null;
+  const problem = validateStrings(value);
+  if (problem) return 'expected a boolean, a string or an array of strings';
+  for (const pattern of asList(value) as string[]) {
+    const regexp = REGEXP_RE.exec(pattern);
+    const invalid = regexp && regexpProblem(regexp[1], regexp[2]);
+    if (invalid) return `invalid regular expression ${pattern}: ${invalid}`;
+  }
+  return null;
+};
+
+/** `9`, `"9-18"` (end excluded, may wrap past midnight) or an array of them */
+const parseHours = (value: unknown): Array<[number, number]> | null => {
+  const ranges: Array<[number, number]> = [];
+  for (const item of asList(value)) {
+    const match = /^(\d{1,2})-(\d{1,2})$/.exec(String(item));
+    if (typeof item !== 'number' && !match) return null;
+    const from = typeof item === 'number' ? item : Number(match![1]);
+    const to = typeof item === 'number' ? item + 1 : Number(match![2]);
+    if (!Number.isInteger(from) || from < 0 || from > 23 || to < 0 || to > 24) return null;
+    ranges.push([from, to]);
+  }
+  return ranges.length ? ranges : null;
+};
+
+/** `25` or `{ "percent": 25, "salt": "new-dns" }`, null for anything else */
+const rolloutOf = (value: unknown): { percent?: unknown; salt?: unknown } | null =>
+  typeof value === 'number' ? { percent: value } : isPlainObject(value) ? value : null;
+
+const validateMatchers = (what: string) => (value: unknown) => {
+  if (!isPlainObject(value)) return `expected an object of ${what} → value`;
+  for (const [name, matcher] of Object.entries(value)) {
+    const problem = validateMatcher(matcher);
+    if (problem) return `${name}: ${problem}`;
+  }
+  return null;
+};
+
+const KEYS: Record<string, (value: unknown) => string | null> = {
+  iso: validateStrings,
+  region: validateStrings,
+  tag: validateStrings,
+  subId: validateStrings,
+  client: validateStrings,
+  isEU: (value) => (typeof value === 'boolean' ? null : 'expected a boolean'),
+  query: validateMatchers('parameter'),
+  header: validateMatchers('header'),
+  weekday: (value) =>
+    asList(value).length &&
+    asList(value).every((day) => WEEKDAYS.includes(String(day).toLowerCase()))
+      ? null
+      : `expected ${WEEKDAYS.join('/')} or an array of them`,
+  hour: (value) =>
+    parseHours(value) ? null : 'expected an hour 0-23, a range like "9-18" or an array of them',
+  timeZone: (value) => {
+    if (typeof value !== 'string') return 'expected an IANA time zone, e.g. "Europe/Berlin"';
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return null;
+    } catch {
+      return `unknown time zone "${value}"`;
+    }
+  },
+  rollout: (value) => {
+    const { percent, salt } = rolloutOf(value) ?? {};
+    if (typeof percent !== 'number' || percent < 0 || percent > 100)
+      return 'expected a percentage 0-100 or { "percent": 0-100, "salt": "…" }';
+    if (salt !== undefined && typeof salt !== 'string') return 'salt must be a string';
+    return null;
+  },
+  all: (value) => validateConditionList(value),
+  any: (value) => validateConditionList(value),
+  not: (value) => validateCondition(value)[0] ?? null,
+};
+
+const validateConditionList = (value: unknown) => {
+  if (!Array.isArray(value) || !value.length) return 'expected a non-empty array of conditions';
+  for (const [index, item] of value.entries()) {
+    const problem = validateCondition(item)[0];
+    if (problem) return `[${index}] ${problem}`;
+  }
+  return null;
+};
+
+/**
+ * Problems of a `when` condition, empty when it is valid
+ */
+export const validateCondition = (condition: unknown): string[] => {
+  if (!isPlainObject(condition)) return ['expected an object of conditions'];
+  if (!Object.keys(condition).length) return ['expected at least one condition'];
+  return Object.entries(condition).flatMap(([key, value]) => {
+    const validate = KEYS[key];
+    if (!validate) {
+      return [`unknown condition "${key}", expected one of ${Object.keys(KEYS).join(', ')}`];
+    }
+    const problem = validate(value);
+    return problem ? [`${key}: ${problem}`] : [];
+  });
+};
+
+/** Compiled `/regexp/` patterns, shared by every request */
+const regexps = new Map<string, RegExp>();
+
+const matchValue = (matcher: unknown, actual: string | string[] | undefined) => {
+  if (typeof matcher === 'boolean') return matcher === (actual !== undefined);
+  if (actual === undefined) return false;
+  const values = asList(actual) as string[];
+  return (asList(matcher) as string[]).some((pattern) => {
+    const regexp = REGEXP_RE.exec(pattern);
+    if (!regexp) return values.includes(pattern);
+    let re = regexps.get(pattern);
+    if (!re) regexps.set(pattern, (re = new RegExp(regexp[1], regexp[2])));
+    return values.some((value) => re.test(value));
+  });
+};
+
+/** Position of a user in `[0, 100)`, stable for a subId and salt */
+const rolloutBucket = (subId: string, salt: string) =>
+  (createHash('sha256').update(`${salt}:${subId}`).digest().readUInt32BE(0) % 10_000) / 100;
+
+const timeParts = (now: Date, timeZone?: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  return {
+    weekday: parts.find((part) => part.type === 'weekday')!.value.toLowerCase(),
+    hour: Number(parts.find((part) => part.type === 'hour')!.value),
+  };
+};
+
+const upper = (values: unknown) => (asList(values) as string[]).map((v) => v.toUpperCase());
+
+/**
+ * Evaluate a validated `when` condition
+ */
+export const evaluateCondition = (condition: Condition, context: RequestContext): boolean =>
+  Object.entries(condition).every(([key, value]) => {
+    switch (key) {
+      case 'iso':
+        return upper(value).includes(context.iso.toUpperCase());
+      case 'region':
+        return upper(value).some((region) => context.regions.includes(region));
+      case 'tag':
+        return (asList(value) as string[]).some((tag) => context.tags.includes(tag));
+      case 'subId':
+        return (asList(value) as string[]).includes(context.subId);
+      case 'client':
+        return (asList(value) as string[]).some((id) => id.toLowerCase() === context.client);
+      case 'isEU':
+        return value === context.isEU;
+      case 'query':
+        return Object.entries(value as Condition).every(([name, matcher]) =>
+          matchValue(matcher, context.query[name]),
+        );
+      case 'header':
+        return Object.entries(value as Condition).every(([name, matcher]) =>
+          matchValue(matcher, context.headers[name.toLowerCase()]),
+        );
+      case 'weekday': {
+        const { weekday } = timeParts(context.now ?? new Date(), condition.timeZone as string);
+        return (asList(value) as string[]).some((day) => day.toLowerCase() === weekday);
+      }
+      case 'hour': {
+        const { hour } = timeParts(context.now ?? new Date(), condition.timeZone as string);
+        return parseHours(value)!.some(([from, to]) =>
+          from < to ? hour >= from && hour < to : hour >= from || hour < to,
+        );
+      }
+      case 'timeZone':
+        return true;
+      case 'rollout': {
+        const { percent, salt = '' } = rolloutOf(value) as { percent: number; salt?: string };
+        return rolloutBucket(context.subId, salt) < percent;
+      }
+      case 'all':
+        return (value as Condition[]).every((item) => evaluateCondition(item, context));
+      case 'any':
+        return (value as Condition[]).some((item) => evaluateCondition(item, context));
+      case 'not':
+        return !evaluateCondition(value as Condition, context);
+      default:
+        return false;
+    }
+  });
+
+/**
+ * Both conditions must hold, either may be missing
+ */
+export const combineConditions = (outer: unknown, inner: unknown): Condition | undefined => {
+  if (outer === undefined) return inner as Condition | undefined;
+  if (inner === undefined) return outer as Condition;
+  return { all: [outer as Condition, inner as Condition] };
+};
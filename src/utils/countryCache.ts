@@ -0,0 +1,153 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+
+import type { CountryCache, CountryCacheEntry, CountryCacheOptions } from '../types.js';
+
+/**
+ * Backing store of a persistent cache, memory stays the source of truth
+ */
+interface CacheStore {
+  load: () => Array<[string, CountryCacheEntry]>;
+  set: (subId: string, entry: CountryCacheEntry) => void;
+  delete: (subId: string) => void;
+  close: () => void;
+}
+
+const createFileStore = (
+  path: string,
+  getEntries: () => Array<[string, CountryCacheEntry]>,
+  onError?: (error: unknown) => void,
+  flushDelay = 5_000,
+): CacheStore => {
+  let timer: NodeJS.Timeout | undefined;
+  const flush = () => {
+    timer = undefined;
+    try {
+      // Write to a temp file first so a crash never leaves a truncated cache
+      writeFileSync(`${path}.tmp`, JSON.stringify(Object.fromEntries(getEntries())));
+      renameSync(`${path}.tmp`, path);
+    } catch (err) {
+      // Memory stays the source of truth, the next change tries again
+      onError?.(err);
+    }
+  };
+  const scheduleFlush = () => {
+    if (!timer) timer = setTimeout(flush, flushDelay).unref();
+  };
+
+  return {
+    load: () => {
+      if (!existsSync(path)) return [];
+      const data = JSON.parse(readFileSync(path, 'utf8')) as Record<string, CountryCacheEntry>;
+      return Object.entries(data).sort(([, a], [, b]) => a.lastSeen - b.lastSeen);
+    },
+    set: scheduleFlush,
+    delete: scheduleFlush,
+    close: () => {
+      if (!timer) return;
+      clearTimeout(timer);
+      flush();
+    },
+  };
+};
+
+const createSqliteStore = async (path: string): Promise<CacheStore> => {
+  const { DatabaseSync } = await import('node:sqlite');
+  const db = new DatabaseSync(path);
+  db.exec(`CREATE TABLE IF NOT EXISTS country_cache (
+    sub_id TEXT PRIMARY KEY,
+    iso TEXT NOT NULL,
+    is_eu INTEGER NOT NULL,
+    last_seen INTEGER NOT NULL
+  )`);
+  const upsert = db.prepare(
+    `INSERT INTO country_cache (sub_id, iso, is_eu, last_seen) VALUES (?, ?, ?, ?)
+     ON CONFLICT(sub_id) DO UPDATE SET iso = excluded.iso, is_eu = excluded.is_eu, last_seen = excluded.last_seen`,
+  );
+  const remove = db.prepare('DELETE FROM country_cache WHERE sub_id = ?');
+
+  return {
+    load: () =>
+      db
+        .prepare('SELECT sub_id, iso, is_eu, last_seen FROM country_cache ORDER BY last_seen')
+        .all()
+        .map((row) => [
+          String(row.sub_id),
+          { iso: String(row.iso), isEU: Boolean(row.is_eu), lastSeen: Number(row.last_seen) },
+        ]),
+    set: (subId, { iso, isEU, lastSeen }) => {
+      upsert.run(subId, iso, isEU ? 1 : 0, lastSeen);
+    },
+    delete: (subId) => {
+      remove.run(subId);
+    },
+    close: () => db.close(),
+  };
+};
+
+/**
+ * Last known country of each user, used when GeoIP fails.
+ * LRU-bounded, entries expire `ttl` ms after they were last seen.
+ */
+export const createCountryCache = async ({
+  maxEntries = 10_000,
+  ttl = 30 * 24 * 60 * 60_000,
+  persist,
+  onError,
+}: CountryCacheOptions = {}): Promise<CountryCache> => {
+  // Map iteration follows insertion order, so the first key is the least recently used
+  const entries = new Map<string, CountryCacheEntry>();
+  const isExpired = (entry: CountryCacheEntry) => ttl > 0 && Date.now() - entry.lastSeen > ttl;
+
+  const store = persist
+    ? persist.type === 'sqlite'
+      ? await createSqliteStore(persist.path)
+      : createFileStore(persist.path, () => [...entries], onError)
+    : null;
+
+  const evict = () => {
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+      store?.delete(oldest);
+    }
+  };
+
+  for (const [subId, entry] of store?.load() ?? []) {
+    if (!isExpired(entry)) entries.set(subId, entry);
+  }
+  evict();
+
+  const cache: CountryCache = {
+    get: (subId) => {
+      const entry = entries.get(subId);
+      if (!entry) return undefined;
+      if (isExpired(entry)) {
+        cache.delete(subId);
+        return undefined;
+      }
+      // Refresh LRU position
+      entries.delete(subId);
+      entries.set(subId, entry);
+      return entry;
+    },
+    set: (subId, { iso, isEU }) => {
+      const entry = { iso, isEU, lastSeen: Date.now() };
+      entries.delete(subId);
+      entries.set(subId, entry);
+      store?.set(subId, entry);
+      evict();
+    },
+    delete: (subId) => {
+      const existed = entries.delete(subId);
+      if (existed) store?.delete(subId);
+      return existed;
+    },
+    clear: () => {
+      for (const subId of [...entries.keys()]) cache.delete(subId);
+    },
+    size: () => entries.size,
+    close: () => store?.close(),
+  };
+
+  return cache;
+};
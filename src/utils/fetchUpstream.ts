@@ -0,0 +1,164 @@
+import type { UpstreamOptions } from '../types.js';
+
+/**
+ * How a response was produced
+ * - `miss` – fetched from upstream
+ * - `hit` – served from cache within `ttl`, upstream not contacted
+ * - `revalidated` – upstream answered `304 Not Modified`
+ * - `stale` – upstream failed, the last good response was served
+ */
+export type UpstreamCacheStatus = 'miss' | 'hit' | 'revalidated' | 'stale';
+
+export type UpstreamResult =
+  | {
+      ok: true;
+      body: unknown;
+      headers: Array<[string, string]>;
+      cache: UpstreamCacheStatus;
+      /** Error that made the response stale */
+      error?: unknown;
+    }
+  /** Upstream answered with an error status */
+  | { ok: false; status: number }
+  /** Upstream unreachable, timed out or sent an unreadable body */
+  | { ok: false; error: unknown };
+
+interface CachedResponse {
+  body: unknown;
+  headers: Array<[string, string]>;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+}
+
+/**
+ * Headers that must not be forwarded: hop-by-hop ones, and those describing
+ * the upstream body, which is re-serialized
+ */
+const SKIPPED_HEADERS = new Set([
+  'connection',
+  'keep-alive',
+  'proxy-authenticate',
+  'proxy-authorization',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'content-length',
+  'content-encoding',
+  'etag',
+  'last-modified',
+]);
+
+class UpstreamStatusError extends Error {
+  constructor(public status: number) {
+    super(`Upstream responded with ${status}`);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Fetch subscriptions from upstream with a per-subscription cache,
+ * conditional requests, timeout, bounded retries and stale-if-error fallback
+ */
+export const createUpstreamClient = (
+  upstreamUrl: string,
+  {
+    ttl = 0,
+    timeout = 10_000,
+    retries = 2,
+    retryDelay = 500,
+    maxStale = 7 * 24 * 60 * 60_000,
+    maxEntries = 10_000,
+  }: UpstreamOptions = {},
+) => {
+  // Map iteration follows insertion order, so the first key is the least recently used
+  const cache = new Map<string, CachedResponse>();
+
+  const remember = (subscriptionId: string, entry: CachedResponse) => {
+    cache.delete(subscriptionId);
+    cache.set(subscriptionId, entry);
+    while (cache.size > maxEntries) cache.delete(cache.keys().next().value as string);
+  };
+
+  const request = async (subscriptionId: string, cached?: CachedResponse) => {
+    const headers: Record<string, string> = {};
+    if (cached?.etag) headers['if-none-match'] = cached.etag;
+    if (cached?.lastModified) headers['if-modified-since'] = cached.lastModified;
+
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt) await sleep(retryDelay * 2 ** (attempt - 1));
+      try {
+        const res = await fetch(`${upstreamUrl}/${subscriptionId}`, {
+          headers,
+          signal: AbortSignal.timeout(timeout),
+        });
+        // Client errors are final, only server errors are worth a retry
+        if (res.status >= 500) {
+          // An unread body keeps the connection busy until garbage collection
+          await res.body?.cancel();
+          throw new UpstreamStatusError(res.status);
+        }
+        return res;
+      } catch (err) {
+        lastError = err;
+      }
+    }
+    throw lastError;
+  };
+
+  const get = async (subscriptionId: string): Promise<UpstreamResult> => {
+    const cached = cache.get(subscriptionId);
+    if (cached && Date.now() - cached.fetchedAt < ttl) {
+      return { ok: true, body: structuredClone(cached.body), headers: cached.headers, cache: 'hit' };
+    }
+
+    const serveStale = (error: unknown): UpstreamResult | null =>
+      cached && Date.now() - cached.fetchedAt < maxStale
+        ? { ok: true, body: structuredClone(cached.body), headers: cached.headers, cache: 'stale', error }
+        : null;
+
+    let res: Response;
+    try {
+      res = await request(subscriptionId, cached);
+    } catch (error) {
+      return (
+        serveStale(error) ??
+        (error instanceof UpstreamStatusError ? { ok: false, status: error.status } : { ok: false, error })
+      );
+    }
+
+    if (res.status === 304 && cached) {
+      remember(subscriptionId, { ...cached, fetchedAt: Date.now() });
+      return { ok: true, body: structuredClone(cached.body), headers: cached.headers, cache: 'revalidated' };
+    }
+    if (!res.ok) {
+      // The subscription is gone or forbidden, never serve it again
+      cache.delete(subscriptionId);
+      await res.body?.cancel();
+      return { ok: false, status: res.status };
+    }
+
+    let body: unknown;
+    try {
+      body = await res.json();
+    } catch (error) {
+      return serveStale(error) ?? { ok: false, error };
+    }
+    const headers = [...res.headers.entries()].filter(
+      ([name]) => !SKIPPED_HEADERS.has(name.toLowerCase()),
+    );
+    remember(subscriptionId, {
+      body,
+      headers,
+      etag: res.headers.get('etag') ?? undefined,
+      lastModified: res.headers.get('last-modified') ?? undefined,
+      fetchedAt: Date.now(),
+    });
+    return { ok: true, body: structuredClone(body), headers, cache: 'miss' };
+  };
+
+  return { get };
+};
@@ -0,0 +1,208 @@
+import { existsSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { renderLocal, type LocalRequest } from './renderLocal.js';
+
+import type { CreateServerProps } from '../types.js';
+
+/**
+ * `<name>.fixture.json`, `.yaml` or `.yml`: a client and the upstream config it is served
+ */
+export interface Fixture extends Omit<LocalRequest, 'upstream'> {
+  /** Upstream config inline, or a JSON file relative to the fixture */
+  upstream: unknown;
+}
+
+export interface FixtureResult {
+  /** Fixture file, relative to the fixtures directory */
+  name: string;
+  /**
+   * - `passed` – the output matches the expected file
+   * - `failed` – it does not, see `diff`
+   * - `missing` – there is no expected file yet
+   * - `updated` – the expected file was written in update mode
+   * - `error` – the fixture could not be rendered
+   */
+  status: 'passed' | 'failed' | 'missing' | 'updated' | 'error';
+  /** Expected file next to the fixture */
+  expectedFile: string;
+  /** Readable differences, lines starting with `-` are expected and `+` actual */
+  diff: string[];
+  error?: string;
+}
+
+const FIXTURE_RE = /\.fixture\.(json|ya?ml)$/;
+
+/** Where the rules are in each output format */
+const RULE_PATHS = {
+  xray: ['routing', 'rules'],
+  singbox: ['route', 'rules'],
+  mihomo: ['rules'],
+};
+
+/**
+ * JSON with sorted keys, so key order never counts as a difference
+ */
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item,
+  );
+
+const parseText = (text: string, yaml: boolean): unknown =>
+  yaml ? parseYaml(text) : JSON.parse(text);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const preview = (value: unknown) => {
+  const text = value === undefined ? '(none)' : JSON.stringify(value);
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
+
+/**
+ * Rule-level diff of two rule lists: rules only in `expected` as `-`, only in `actual` as `+`,
+ * with their position in the list they belong to
+ */
+const diffRules = (label: string, expected: unknown[], actual: unknown[]) => {
+  const a = expected.map(canonical);
+  const b = actual.map(canonical);
+  // Longest common subsequence, filled from the end
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i += 1;
+      j += 1;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`- ${label} #${i}: ${JSON.stringify(expected[i])}`);
+      i += 1;
+    } else {
+      lines.push(`+ ${label} #${j}: ${JSON.stringify(actual[j])}`);
+      j += 1;
+    }
+  }
+  return lines;
+};
+
+/**
+ * Paths where two values differ, objects compared key by key
+ */
+const diffValues = (path: string, expected: unknown, actual: unknown): string[] => {
+  if (canonical(expected) === canonical(actual)) return [];
+  if (isPlainObject(expected) && isPlainObject(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+    return keys.flatMap((key) =>
+      diffValues(path ? `${path}.${key}` : key, expected[key], actual[key]),
+    );
+  }
+  return [`- ${path}: ${preview(expected)}`, `+ ${path}: ${preview(actual)}`];
+};
+
+/**
+ * Differences between two outputs: rules one by one, everything else by path
+ */
+const diffOutputs = (format: keyof typeof RULE_PATHS, expected: unknown, actual: unknown) => {
+  const rulePath = RULE_PATHS[format];
+  const diffConfig = (prefix: string, expectedConfig: unknown, actualConfig: unknown) => {
+    const split = (config: unknown) => {
+      if (!isPlainObject(config)) return { rules: [], rest: config };
+      const rest = structuredClone(config);
+      let parent: any = rest;
+      for (const key of rulePath.slice(0, -1)) {
+        parent = isPlainObject(parent?.[key]) ? parent[key] : undefined;
+      }
+      const rules = parent?.[rulePath.at(-1)!];
+      if (parent) delete parent[rulePath.at(-1)!];
+      return { rules: Array.isArray(rules) ? rules : [], rest };
+    };
+    const before = split(expectedConfig);
+    const after = split(actualConfig);
+    return [
+      ...diffRules(`${prefix}${rulePath.join('.')}`, before.rules, after.rules),
+      ...diffValues(prefix.replace(/\.$/, ''), before.rest, after.rest),
+    ];
+  };
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length);
+    return Array.from({ length }, (_, index) =>
+      diffConfig(`[${index}].`, expected[index], actual[index]),
+    ).flat();
+  }
+  return diffConfig('', expected, actual);
+};
+
+/**
+ * Render every fixture below `dir` and compare it with its expected file.
+ * In update mode, expected files are (re)written instead of failing.
+ */
+export const runFixtures = async ({
+  dir,
+  options = {},
+  update = false,
+}: {
+  dir: string;
+  /** Server options, as for `createServer`; upstream, GeoIP and the 3x-ui panel are replaced */
+  options?: Partial<CreateServerProps>;
+  update?: boolean;
+}): Promise<FixtureResult[]> => {
+  const files = (readdirSync(dir, { recursive: true }) as string[])
+    .filter((file) => FIXTURE_RE.test(file))
+    .sort();
+  const results: FixtureResult[] = [];
+
+  for (const name of files) {
+    const file = join(dir, name);
+    const result: FixtureResult = {
+      name,
+      status: 'passed',
+      expectedFile: file.replace(FIXTURE_RE, '.expected.json'),
+      diff: [],
+    };
+    results.push(result);
+
+    // A broken fixture is reported like a failing one, the others still run
+    try {
+      const fixture = parseText(
+        readFileSync(file, 'utf8'),
+        FIXTURE_RE.exec(name)![1] !== 'json',
+      ) as Fixture;
+      if (!isPlainObject(fixture)) throw new Error('expected an object');
+      const format = fixture.format ?? 'xray';
+      if (format === 'mihomo') result.expectedFile = file.replace(FIXTURE_RE, '.expected.yaml');
+      const { expectedFile } = result;
+      const upstream =
+        typeof fixture.upstream === 'string'
+          ? JSON.parse(readFileSync(resolve(dirname(file), fixture.upstream), 'utf8'))
+          : fixture.upstream;
+      const { statusCode, body } = await renderLocal(options, { ...fixture, upstream });
+      if (statusCode !== 200) throw new Error(`status ${statusCode}: ${body}`);
+      const yaml = format === 'mihomo';
+
+      if (!existsSync(expectedFile)) {
+        result.status = update ? 'updated' : 'missing';
+      } else {
+        result.diff = diffOutputs(
+          format,
+          parseText(readFileSync(expectedFile, 'utf8'), yaml),
+          parseText(body, yaml),
+        );
+        if (result.diff.length) result.status = update ? 'updated' : 'failed';
+      }
+      if (result.status === 'updated') writeFileSync(expectedFile, `${body.trimEnd()}\n`);
+    } catch (error) {
+      result.status = 'error';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+  return results;
+};
@@ -1,3 +1,5 @@
+import { parseCommentDirectives } from './commentDirectives.js';
+
 import type { XuiOptions } from '../types.js';
 
 interface XuiApiResponse<T> {
@@ -41,6 +43,10 @@ export const get3xui = async ({
   token,
   inboundIds,
   debug = false,
+  refreshInterval = 5 * 60_000,
+  retryDelay = 5_000,
+  onDemandRefreshInterval = 30_000,
+  timeout = 10_000,
 }: XuiOptions) => {
   const baseUrl = panelAddress.endsWith('/')
     ? panelAddress.slice(0, -1)
@@ -48,12 +54,19 @@ export const get3xui = async ({
 
   const fetchWithAuth = async <T>(endpoint: string, options?: RequestInit): Promise<T> => {
     const response = await fetch(`${baseUrl}${endpoint}`, {
+      // A hanging panel must not stall startup or the requests waiting on a refresh
+      signal: AbortSignal.timeout(timeout),
       ...options,
       headers: {
         'Authorization': `Bearer ${token}`,
         'Accept': 'application/json',
         ...options?.headers,
       },
+    }).catch((error: unknown) => {
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        throw new Error(`3x-ui API error: no response from ${endpoint} within ${timeout}ms`);
+      }
+      throw error;
     });
 
     if (!response.ok) {
@@ -66,7 +79,7 @@ export const get3xui = async ({
 
   const inboundIdSet = new Set(inboundIds.map((id) => String(id)));
 
-  try {
+  const fetchClients = async (): Promise<XuiClient[]> => {
     const data = await fetchWithAuth<XuiApiResponse<XuiInbound[]>>('/panel/api/inbounds/list');
     if (!data.success) {
       throw new Error(`3x-ui API error: ${data.msg || 'request failed'}`);
@@ -77,7 +90,7 @@ export const get3xui = async ({
       console.log('[3x-ui debug] Inbounds fetched:', inbounds);
     }
 
-    const allClients = inbounds
+    return inbounds
       .filter((inbound) => inboundIdSet.has(String(inbound.id)))
       .flatMap((inbound) => {
         try {
@@ -89,36 +102,110 @@ export const get3xui = async ({
           return [];
         }
       });
+  };
 
-    const getUserTags = (subscriptionId: string) => {
-      const client = allClients.find(
-        (client) => client.subId === subscriptionId,
-      );
-
-      const comment = (client?.comment as string | undefined) || '';
-
-      // Regex: capture sequence after 'tags=' up to ;, newline, or another key=value segment
-      const tagRegex = /tags=([\s\S]*?)(?=(?:\s+\S+=)|;|\n|$)/g;
-      const out: string[] = [];
-      let match: RegExpExecArray | null;
-      while ((match = tagRegex.exec(comment))) {
-        const segment = match[1];
-        segment
-          .split(',')
-          .map((s) => s.trim())
-          .filter(Boolean)
-          .forEach((t) => out.push(t));
-      }
+  /**
+   * Last client list fetched successfully, kept while the panel is unreachable
+   */
+  let allClients: XuiClient[] = [];
+  let lastSuccessAt = 0;
+  let lastAttemptAt = 0;
+  let failures = 0;
+  let inFlight: Promise<boolean> | null = null;
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+
+  /**
+   * Fetch the client list once, concurrent callers share the same request.
+   * Resolves to `false` when the panel could not be reached.
+   */
+  const refresh = (): Promise<boolean> => {
+    if (inFlight) return inFlight;
+    lastAttemptAt = Date.now();
+    inFlight = fetchClients()
+      .then((clients) => {
+        allClients = clients;
+        lastSuccessAt = Date.now();
+        failures = 0;
+        return true;
+      })
+      .catch((error) => {
+        failures += 1;
+        console.error(error);
+        return false;
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+    return inFlight;
+  };
 
-      return Array.from(new Set(out));
-    };
-    return {
-      getUserTags,
-    };
-  } catch (error) {
-    console.error(error);
-    return {
-      getUserTags: () => [],
-    };
-  }
+  /**
+   * Next refresh after `refreshInterval`, or sooner with exponential backoff while failing
+   */
+  const schedule = () => {
+    if (stopped || refreshInterval <= 0) return;
+    const delay = failures
+      ? Math.min(retryDelay * 2 ** (failures - 1), refreshInterval)
+      : refreshInterval;
+    if (debug) {
+      console.log(`[3x-ui debug] Next clients refresh in ${delay}ms`);
+    }
+    timer = setTimeout(() => {
+      refresh().finally(schedule);
+    }, delay);
+  };
+
+  await refresh();
+  schedule();
+
+  const findClient = (subscriptionId: string) =>
+    allClients.find((client) => client.subId === subscriptionId);
+
+  /**
+   * Panel client of a subscription: its email and the directives from its comment
+   */
+  const getUser = async (subscriptionId: string) => {
+    let client = findClient(subscriptionId);
+
+    // Unknown user: maybe added in the panel after the last refresh
+    if (!client && Date.now() - lastAttemptAt >= onDemandRefreshInterval) {
+      await refresh();
+      client = findClient(subscriptionId);
+    }
+
+    const comment = (client?.comment as string | undefined) || '';
+    return { email: client?.email || undefined, ...parseCommentDirectives(comment) };
+  };
+
+  const getUserTags = async (subscriptionId: string) =>
+    (await getUser(subscriptionId)).directives.tags;
+
+  /**
+   * Every client of the last fetched list with the directives from its comment
+   */
+  const getClients = () =>
+    allClients.map((client) => ({
+      subId: client.subId ?? null,
+      email: client.email || null,
+      ...parseCommentDirectives(client.comment || ''),
+    }));
+
+  return {
+    getUser,
+    getUserTags,
+    getClients,
+    refresh,
+    /** Refresh state, for diagnostics */
+    getStatus: () => ({
+      clients: allClients.length,
+      lastSuccessAt,
+      lastAttemptAt,
+      failures,
+    }),
+    stop: () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+    },
+  };
 };
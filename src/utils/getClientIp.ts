@@ -1,7 +1,98 @@
+import { isIP } from 'net';
+
+import { createCidrMatcher } from './cidr.js';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+export interface ClientIpOptions {
+  /** CIDRs (or `loopback`, `linklocal`, `uniquelocal`) of proxies allowed to set forwarding headers */
+  trustedProxies?: string[];
+  /** Headers to look at, in priority order (default `x-forwarded-for` only) */
+  headers?: string[];
+}
+
+/** Headers carrying a chain of addresses, appended to by every proxy */
+const CHAIN_HEADERS = new Set(['forwarded', 'x-forwarded-for']);
+
+/**
+ * Proxies rarely strip a `Forwarded` header sent by the client, so it is opt-in:
+ * a header listed here but passed through by the proxy lets clients pick their address
+ */
+export const DEFAULT_CLIENT_IP_HEADERS = ['x-forwarded-for'];
+
+const headerValue = (headers: Headers, name: string) => {
+  const value = headers[name];
+  return Array.isArray(value) ? value.join(',') : value;
+};
+
+/**
+ * Strip quotes, IPv6 brackets and ports: `"[2001:db8::1]:4711"` → `2001:db8::1`
+ */
+const cleanAddress = (raw: string) => {
+  const value = raw.trim().replace(/^"(.*)"$/, '$1');
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(value);
+  if (bracketed) return bracketed[1];
+  const v4WithPort = /^(\d+\.\d+\.\d+\.\d+):\d+$/.exec(value);
+  if (v4WithPort) return v4WithPort[1];
+  return value;
+};
+
+/**
+ * RFC 7239: `for=192.0.2.60;proto=http, for="[2001:db8::17]:4711"`
+ */
+const parseForwarded = (value: string) =>
+  value.split(',').map((element) => {
+    const pair = element
+      .split(';')
+      .map((p) => p.trim())
+      .find((p) => p.toLowerCase().startsWith('for='));
+    return pair ? cleanAddress(pair.slice(4)) : '';
+  });
+
+export const createClientIpResolver = ({
+  trustedProxies = [],
+  headers: priority = DEFAULT_CLIENT_IP_HEADERS,
+}: ClientIpOptions = {}) => {
+  const isTrusted = createCidrMatcher(trustedProxies);
+  const headerNames = priority.map((name) => name.toLowerCase());
+
+  /**
+   * Walk the chain right-to-left, skipping trusted proxies, the first untrusted hop is the client
+   */
+  const fromChain = (chain: string[], peer: string) => {
+    let client = peer;
+    for (const hop of [...chain].reverse()) {
+      if (!isIP(hop)) break;
+      client = hop;
+      if (!isTrusted(hop)) break;
+    }
+    return client;
+  };
+
+  return (headers: Headers, peerIp: string): string => {
+    const peer = cleanAddress(peerIp).replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i, '$1');
+    if (!isTrusted(peer)) return peer;
+
+    for (const name of headerNames) {
+      const value = headerValue(headers, name);
+      if (!value) continue;
+      if (CHAIN_HEADERS.has(name)) {
+        const chain =
+          name === 'forwarded'
+            ? parseForwarded(value)
+            : value.split(',').map(cleanAddress);
+        return fromChain(chain, peer);
+      }
+      const address = cleanAddress(value);
+      if (isIP(address)) return address;
+    }
+
+    return peer;
+  };
+};
+
 export const getClientIp = (
-  headers: Record<string, string | string[] | undefined>,
+  headers: Headers,
   ipFromFastify: string,
-): string => {
-  const forwarded = headers['x-forwarded-for'] as string | undefined;
-  return forwarded ? forwarded.split(',')[0].trim() : ipFromFastify;
-}
+  options?: ClientIpOptions,
+): string => createClientIpResolver(options)(headers, ipFromFastify);
@@ -0,0 +1,17 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+const digest = (value: string) => createHash('sha256').update(value).digest();
+
+/**
+ * Check `Authorization: Bearer <token>` in constant time
+ */
+export const hasBearerToken = (
+  headers: Record<string, string | string[] | undefined>,
+  token: string,
+): boolean => {
+  const header = headers['authorization'];
+  const value = Array.isArray(header) ? header[0] : header;
+  const match = /^Bearer\s+(.+)$/i.exec(value?.trim() || '');
+  if (!match) return false;
+  return timingSafeEqual(digest(match[1]), digest(token));
+};
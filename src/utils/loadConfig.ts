@@ -0,0 +1,136 @@
+import { existsSync, readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { csvProvider, ipLocationApiProvider, mmdbProvider } from '../geoip.js';
+
+import type { CreateServerProps, GeoIpProvider, TenantOptions, XuiOptions } from '../types.js';
+
+/**
+ * GeoIP provider as written in a config file
+ */
+export type GeoIpProviderConfig =
+  | { type: 'ip-location-api'; priority?: number }
+  | { type: 'mmdb' | 'csv'; path: string; priority?: number };
+
+/**
+ * Config file of the CLI: the `createServer` options a JSON or YAML file can hold
+ */
+export interface CliConfig
+  extends Partial<Omit<CreateServerProps, 'geoip' | 'tenants' | 'transform'>> {
+  /** Port `serve` listens on (default 3088) */
+  port?: number;
+  /** Host `serve` listens on (default `0.0.0.0`) */
+  host?: string;
+  geoip?: GeoIpProviderConfig[];
+  tenants?: Array<Omit<TenantOptions, 'transform'>>;
+}
+
+/** Looked up in the working directory when no config file is given */
+export const DEFAULT_CONFIG_FILES = [
+  'geoip-3xui-rules.config.json',
+  'geoip-3xui-rules.config.yaml',
+  'geoip-3xui-rules.config.yml',
+];
+
+const parseList = (value: string) =>
+  value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const setXuiOption =
+  <K extends keyof XuiOptions>(key: K, parse: (value: string) => XuiOptions[K]) =>
+  (config: CliConfig, value: string) => {
+    config.xuiOptions = { ...config.xuiOptions, [key]: parse(value) } as XuiOptions;
+  };
+
+/**
+ * Environment variables, applied over the config file
+ */
+const ENV_OPTIONS: Record<string, (config: CliConfig, value: string) => void> = {
+  UPSTREAM_URL: (config, value) => (config.upstreamUrl = value),
+  SECRET_URL: (config, value) => (config.secretUrl = value),
+  RULES_DIR: (config, value) => (config.rulesDir = value),
+  OVERRIDES_DIR: (config, value) => (config.overridesDir = value),
+  OUTBOUNDS_DIR: (config, value) => (config.outboundsDir = value),
+  PUBLIC_URL: (config, value) => (config.publicURL = value),
+  PORT: (config, value) => (config.port = Number(value)),
+  HOST: (config, value) => (config.host = value),
+  VALIDATION: (config, value) => (config.validation = value as CliConfig['validation']),
+  ADMIN_TOKEN: (config, value) => (config.adminToken = value),
+  EXPLAIN_TOKEN: (config, value) => (config.explainToken = value),
+  XUI_PANEL_URL: setXuiOption('panelAddress', String),
+  XUI_PANEL_TOKEN: setXuiOption('token', String),
+  XUI_INBOUND_IDS: setXuiOption('inboundIds', parseList),
+};
+
+/**
+ * Read the config file, if any, and apply environment variables over it
+ * @param file - config file, or `undefined` to look for one of `DEFAULT_CONFIG_FILES`
+ */
+export const loadConfig = (
+  file: string | undefined,
+  env: Record<string, string | undefined> = process.env,
+): CliConfig => {
+  const path = file ?? DEFAULT_CONFIG_FILES.find((name) => existsSync(name));
+  let config: CliConfig = {};
+  if (path) {
+    const text = readFileSync(path, 'utf8');
+    const parsed = ['.yaml', '.yml'].includes(extname(path)) ? parseYaml(text) : JSON.parse(text);
+    if (parsed !== null && (typeof parsed !== 'object' || Array.isArray(parsed))) {
+      throw new Error(`${path}: expected an object of options`);
+    }
+    config = parsed ?? {};
+  }
+  for (const [name, apply] of Object.entries(ENV_OPTIONS)) {
+    const value = env[name];
+    if (value) apply(config, value);
+  }
+  if (config.port !== undefined && !Number.isInteger(config.port)) {
+    throw new Error(`port: expected an integer, got ${config.port}`);
+  }
+  return config;
+};
+
+const createGeoIpProvider = (provider: GeoIpProviderConfig): GeoIpProvider => {
+  switch (provider.type) {
+    case 'ip-location-api':
+      return ipLocationApiProvider(provider);
+    case 'mmdb':
+      return mmdbProvider(provider);
+    case 'csv':
+      return csvProvider(provider);
+    default:
+      throw new Error(
+        `geoip: unknown provider type "${(provider as { type: unknown }).type}", ` +
+          'expected ip-location-api, mmdb or csv',
+      );
+  }
+};
+
+/**
+ * `createServer` options of a config, throws when a required one is missing
+ */
+export const toServerOptions = ({
+  port,
+  host,
+  geoip,
+  tenants,
+  ...options
+}: CliConfig): CreateServerProps => {
+  if (!options.upstreamUrl) throw new Error('upstreamUrl is not set (or UPSTREAM_URL)');
+  if (!options.secretUrl) throw new Error('secretUrl is not set (or SECRET_URL)');
+  const { xuiOptions } = options;
+  if (xuiOptions && (!xuiOptions.panelAddress || !xuiOptions.token || !xuiOptions.inboundIds)) {
+    throw new Error('xuiOptions: panelAddress, token and inboundIds are all required');
+  }
+  return {
+    ...options,
+    upstreamUrl: options.upstreamUrl,
+    secretUrl: options.secretUrl,
+    rulesDir: options.rulesDir ?? 'rules',
+    geoip: geoip?.map(createGeoIpProvider),
+    tenants,
+  };
+};
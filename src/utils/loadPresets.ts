@@ -0,0 +1,594 @@
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, parse, resolve } from 'path';
+
+import {
+  formatIssue,
+  validateOutbounds,
+  validateOverride,
+  validateRules,
+  type ValidationIssue,
+  type ValidationMode,
+} from './validateRules.js';
+import { DEFAULT_REGIONS, REGIONS_FILE, parseRegions, type Region } from './regions.js';
+import { combineConditions } from './conditions.js';
+import { VARIABLE_RE, findVariables, isRequestVariable, mapStrings } from './variables.js';
+
+import type { JsonOptions, XrayRule } from '../types.js';
+
+export interface TagPreset {
+  base: XrayRule[];
+  default: XrayRule[];
+  country: Record<string, XrayRule[]>;
+}
+
+export interface ReversePreset {
+  /** Excluded ISO codes and region names */
+  exclude: Set<string>;
+  rules: XrayRule[];
+  name: string;
+}
+
+export type PresetMap = Record<string, XrayRule[]>;
+
+export interface RuleOrigin {
+  /** Rule file the rule was loaded from */
+  file: string;
+  /** Includes the rule came through, outermost first */
+  includes: string[];
+}
+
+/**
+ * Everything loaded from `rulesDir` and `overridesDir`, swapped in as a whole on reload
+ */
+export interface PresetSnapshot {
+  rules: PresetMap;
+  /** Override layers by `BASE`, `EU`, ISO code or `DEFAULT` */
+  overrides: Record<string, JsonOptions>;
+  /** Override layers by tag name, from `overridesDir/tags/<tag>.json` */
+  tagOverrides: Record<string, JsonOptions>;
+  reverse: ReversePreset[];
+  tags: Record<string, TagPreset>;
+  /** Per-user presets by lower-cased subId or email, from `rulesDir/users/` */
+  users: Record<string, TagPreset>;
+  /** Override layers by lower-cased subId or email, from `overridesDir/users/<user>.json` */
+  userOverrides: Record<string, JsonOptions>;
+  /** Presets by client app id, from `rulesDir/clients/` */
+  clients: Record<string, TagPreset>;
+  /** Outbound definitions by `BASE`, region, ISO code or `DEFAULT`, from `outboundsDir` */
+  outbounds: Record<string, JsonOptions[]>;
+  /** Outbound definitions by tag name, from `outboundsDir/tags/<tag>.json` */
+  tagOutbounds: Record<string, JsonOptions[]>;
+  /** Region groups from `regions.json`, in definition order */
+  regions: Region[];
+  /** Source of every loaded rule object */
+  origins: WeakMap<object, RuleOrigin>;
+  /** Rules and override layers with request variables to fill in */
+  templated: WeakSet<object>;
+  /** Files behind every loaded rule list and override layer */
+  sources: WeakMap<object, string[]>;
+}
+
+export interface PresetLoadResult {
+  snapshot: PresetSnapshot;
+  /** Files that failed to load, with the reason */
+  errors: Array<{ file: string; error: unknown }>;
+  /** Invalid rules and override keys dropped in lenient mode */
+  warnings: ValidationIssue[];
+  /** Human readable messages about what was loaded */
+  messages: string[];
+}
+
+interface ParsedFile {
+  value: any;
+  /** Absolute paths of every include touched while expanding this file (missing ones too) */
+  deps: Set<string>;
+}
+
+/** `@include name` or `@include name(key=value, …)` */
+const INCLUDE_RE = /^@include\s+([A-Za-z0-9._-]+)(?:\((.*)\))?$/;
+
+const parseIncludeArgs = (text: string | undefined) => {
+  const args: Record<string, string> = {};
+  if (!text?.trim()) return args;
+  for (const part of text.split(',')) {
+    const match = /^\s*([A-Za-z_]\w*)\s*=\s*(.*?)\s*$/.exec(part);
+    if (!match) throw new Error(`invalid parameter "${part.trim()}", expected key=value`);
+    args[match[1]] = match[2];
+  }
+  return args;
+};
+
+/**
+ * Replace `${param}` with include arguments, leaving request variables for later
+ */
+const fillIncludeParams = (content: unknown, args: Record<string, string>) => {
+  const used = new Set<string>();
+  const filled = mapStrings(content, (text) =>
+    text.replace(VARIABLE_RE, (variable, name: string) => {
+      if (Object.hasOwn(args, name)) {
+        used.add(name);
+        return args[name];
+      }
+      if (isRequestVariable(name)) return variable;
+      throw new Error(`missing parameter "${name}"`);
+    }),
+  );
+  const unused = Object.keys(args).filter((name) => !used.has(name));
+  if (unused.length) throw new Error(`unknown parameter(s) ${unused.join(', ')}`);
+  return filled;
+};
+
+/**
+ * Variables a file may not use: unknown names, and `${tag}` outside of tag presets
+ */
+const unknownVariables = (value: unknown, inTag: boolean) =>
+  [...findVariables(value)].filter(
+    (name) => !isRequestVariable(name) || (name === 'tag' && !inTag),
+  );
+
+/**
+ * Rule files that can be written through the admin API, relative to `rulesDir`:
+ * `<name>.json`, `tags/<tag>/<name>.json`, `users/<user>.json`, `users/<user>/<name>.json`
+ * and the same for `clients/`
+ */
+const RULE_FILE_RE =
+  /^(?:(?:tags\/[^/.][^/]*|(?:users|clients)(?:\/[^/.][^/]*)?)\/)?[^/.][^/]*\.json$/;
+
+/**
+ * `{ "when": …, "rules": […] }` where a rule is expected: rules that only apply when the condition holds
+ */
+const isConditionalGroup = (item: any): item is { when?: unknown; rules: any[] } =>
+  Boolean(item) &&
+  typeof item === 'object' &&
+  Array.isArray(item.rules) &&
+  Object.keys(item).every((key) => key === 'when' || key === 'rules');
+
+export const createPresetLoader = ({
+  rulesDir,
+  overridesDir,
+  outboundsDir,
+  validation = 'lenient',
+}: {
+  rulesDir: string;
+  overridesDir: string;
+  outboundsDir: string;
+  validation?: ValidationMode;
+}) => {
+  const includesDir = join(rulesDir, 'includes');
+  const tagsDir = join(rulesDir, 'tags');
+  const usersDir = join(rulesDir, 'users');
+  const clientsDir = join(rulesDir, 'clients');
+
+  /**
+   * Parsed top-level files, reused between reloads until the file
+   * or one of its includes changes
+   */
+  const parsedFiles = new Map<string, ParsedFile>();
+
+  /**
+   * Include chain of every object produced by an include, outermost first
+   */
+  const includeChains = new WeakMap<object, string[]>();
+  /**
+   * Where each rule handed out by the loader comes from
+   */
+  const origins = new WeakMap<object, RuleOrigin>();
+  const templated = new WeakSet<object>();
+  const sources = new WeakMap<object, string[]>();
+
+  const markIncluded = (value: any, chain: string[]) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => markIncluded(item, chain));
+    } else if (value && typeof value === 'object' && !includeChains.has(value)) {
+      includeChains.set(value, chain);
+    }
+  };
+
+  // Includes support
+  const expandIncludes = (
+    value: any,
+    deps: Set<string>,
+    chain: string[],
+  ): any => {
+    if (typeof value === 'string') {
+      const match = INCLUDE_RE.exec(value);
+      if (!match) return value;
+      const [, name, argsText] = match;
+      const fileName = name.endsWith('.json') ? name : `${name}.json`;
+      const fullPath = resolve(includesDir, fileName);
+      deps.add(fullPath);
+      const path = [...chain, fileName].join(' → ');
+      if (chain.includes(fileName)) throw new Error(`Circular include ${path}`);
+      if (!existsSync(fullPath)) throw new Error(`Missing include ${path}`);
+      let content: unknown;
+      try {
+        content = fillIncludeParams(
+          JSON.parse(readFileSync(fullPath, 'utf8')),
+          parseIncludeArgs(argsText),
+        );
+      } catch (err) {
+        throw new Error(`Include failed for ${path}: ${err}`);
+      }
+      const expanded = expandIncludes(content, deps, [...chain, fileName]);
+      // Inner includes are marked first and keep their longer chain
+      markIncluded(expanded, [...chain, fileName]);
+      return expanded;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => expandIncludes(item, deps, chain));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          expandIncludes(item, deps, chain),
+        ]),
+      );
+    }
+    return value;
+  };
+
+  /**
+   * Flatten nested arrays and conditional groups where rule items are expected,
+   * moving the `when` of a group onto each of its rules
+   */
+  const flattenRuleArray = (arr: any[], when?: unknown, chain?: string[]): any[] => {
+    const out: any[] = [];
+    for (const item of arr) {
+      const itemChain = (item && typeof item === 'object' && includeChains.get(item)) || chain;
+      if (Array.isArray(item)) {
+        out.push(...flattenRuleArray(item, when, itemChain));
+      } else if (isConditionalGroup(item)) {
+        out.push(...flattenRuleArray(item.rules, combineConditions(when, item.when), itemChain));
+      } else if (item && typeof item === 'object' && (when !== undefined || itemChain)) {
+        const rule = when === undefined ? item : { ...item, when: combineConditions(when, item.when) };
+        if (itemChain) includeChains.set(rule, itemChain);
+        out.push(rule);
+      } else {
+        out.push(item);
+      }
+    }
+    return out;
+  };
+
+  const parseWithIncludes = (filePath: string, expectArray = false) => {
+    const fullPath = resolve(filePath);
+    let parsed = parsedFiles.get(fullPath);
+    if (!parsed) {
+      const deps = new Set<string>();
+      const raw = JSON.parse(readFileSync(fullPath, 'utf8'));
+      parsed = { value: expandIncludes(raw, deps, []), deps };
+      parsedFiles.set(fullPath, parsed);
+    }
+    // Hand out copies so request handlers can never mutate the cache
+    if (!expectArray || !Array.isArray(parsed.value)) return structuredClone(parsed.value);
+    return flattenRuleArray(parsed.value).map((item) => {
+      const copy = structuredClone(item);
+      if (copy && typeof copy === 'object') {
+        origins.set(copy, { file: filePath, includes: includeChains.get(item) ?? [] });
+      }
+      return copy;
+    });
+  };
+
+  /**
+   * Drop cached results for a changed path, every file including it,
+   * and everything below it when a whole directory was touched
+   */
+  const invalidate = (changedPath: string) => {
+    const fullPath = resolve(changedPath);
+    const prefix = `${fullPath}/`;
+    for (const [file, parsed] of parsedFiles) {
+      if (
+        file === fullPath ||
+        file.startsWith(prefix) ||
+        parsed.deps.has(fullPath) ||
+        [...parsed.deps].some((dep) => dep.startsWith(prefix))
+      ) {
+        parsedFiles.delete(file);
+      }
+    }
+  };
+
+  const load = (): PresetLoadResult => {
+    const snapshot: PresetSnapshot = {
+      rules: {},
+      overrides: {},
+      tagOverrides: {},
+      reverse: [],
+      tags: {},
+      users: {},
+      userOverrides: {},
+      clients: {},
+      outbounds: {},
+      tagOutbounds: {},
+      regions: DEFAULT_REGIONS,
+      origins,
+      templated,
+      sources,
+    };
+    const errors: PresetLoadResult['errors'] = [];
+    const warnings: ValidationIssue[] = [];
+    const messages: string[] = [];
+    const seenFiles = new Set<string>();
+
+    const tryParse = (file: string, expectArray: boolean): unknown => {
+      seenFiles.add(resolve(file));
+      try {
+        return parseWithIncludes(file, expectArray);
+      } catch (error) {
+        errors.push({ file, error });
+        return undefined;
+      }
+    };
+
+    /**
+     * Strict mode rejects the whole file, lenient mode keeps what is valid
+     */
+    const accept = (file: string, issues: ValidationIssue[]) => {
+      if (!issues.length) return true;
+      if (validation === 'strict') {
+        errors.push({ file, error: new Error(issues.map(formatIssue).join('; ')) });
+        return false;
+      }
+      warnings.push(...issues);
+      return true;
+    };
+
+    /**
+     * Request variables a file may use, `${tag}` only in tag presets
+     */
+    const checkVariables = (file: string, value: unknown, inTag: boolean) => {
+      const unknown = unknownVariables(value, inTag);
+      if (!unknown.length) return true;
+      errors.push({
+        file,
+        error: new Error(`unknown variable(s) ${unknown.map((name) => `\${${name}}`).join(', ')}`),
+      });
+      return false;
+    };
+
+    const markTemplated = (value: object) => {
+      if (findVariables(value).size) templated.add(value);
+    };
+
+    const loadRules = (file: string, inTag = false): XrayRule[] | undefined => {
+      const parsed = tryParse(file, true);
+      if (parsed === undefined || !checkVariables(file, parsed, inTag)) return undefined;
+      const { rules, issues } = validateRules(parsed, file);
+      if (!accept(file, issues)) return undefined;
+      rules.forEach(markTemplated);
+      sources.set(rules, [file]);
+      return rules;
+    };
+
+    const loadOverride = (file: string, inTag = false): JsonOptions | undefined => {
+      const parsed = tryParse(file, false);
+      if (parsed === undefined || !checkVariables(file, parsed, inTag)) return undefined;
+      const { override, issues } = validateOverride(parsed, file);
+      if (!accept(file, issues)) return undefined;
+      markTemplated(override);
+      sources.set(override, [file]);
+      return override;
+    };
+
+    const loadOutbounds = (file: string, inTag = false): JsonOptions[] | undefined => {
+      const parsed = tryParse(file, false);
+      if (parsed === undefined || !checkVariables(file, parsed, inTag)) return undefined;
+      // An include of several outbounds becomes a nested array
+      const list = Array.isArray(parsed) ? parsed.flat(Infinity) : parsed;
+      const { outbounds, issues } = validateOutbounds(list, file);
+      if (!accept(file, issues)) return undefined;
+      markTemplated(outbounds);
+      sources.set(outbounds, [file]);
+      return outbounds;
+    };
+
+    const regionsFile = join(rulesDir, REGIONS_FILE);
+    if (existsSync(regionsFile)) {
+      const parsed = tryParse(regionsFile, false);
+      try {
+        if (parsed !== undefined) {
+          snapshot.regions = parseRegions(parsed);
+          messages.push(`Loaded regions ${snapshot.regions.map((r) => r.name).join(', ')}`);
+        }
+      } catch (error) {
+        errors.push({ file: regionsFile, error });
+      }
+    }
+
+    if (existsSync(rulesDir)) {
+      for (const file of readdirSync(rulesDir).filter(
+        (f) => f.endsWith('.json') && f !== REGIONS_FILE,
+      )) {
+        const baseName = parse(file).name;
+        const rules = loadRules(join(rulesDir, file));
+        if (!rules) continue;
+        if (baseName.startsWith('!')) {
+          const tokens = baseName
+            .slice(1)
+            .split(',')
+            .map((s) => s.trim().toUpperCase())
+            .filter(Boolean);
+          snapshot.reverse.push({ exclude: new Set(tokens), rules, name: baseName });
+          messages.push(`Loaded reverse rules ${baseName}`);
+        } else {
+          const code = baseName.toUpperCase();
+          snapshot.rules[code] = rules;
+          messages.push(`Loaded rules for ${code}`);
+        }
+      }
+    }
+
+    if (existsSync(overridesDir)) {
+      for (const file of readdirSync(overridesDir).filter((f) =>
+        f.endsWith('.json'),
+      )) {
+        const code = parse(file).name.toUpperCase();
+        const override = loadOverride(join(overridesDir, file));
+        if (!override) continue;
+        snapshot.overrides[code] = override;
+        messages.push(`Loaded overrides for ${code}`);
+      }
+
+      const tagOverridesDir = join(overridesDir, 'tags');
+      if (existsSync(tagOverridesDir)) {
+        for (const file of readdirSync(tagOverridesDir).filter((f) => f.endsWith('.json'))) {
+          const tagName = parse(file).name;
+          const override = loadOverride(join(tagOverridesDir, file), true);
+          if (!override) continue;
+          snapshot.tagOverrides[tagName] = override;
+          messages.push(`Loaded tag overrides ${tagName}`);
+        }
+      }
+
+      const userOverridesDir = join(overridesDir, 'users');
+      if (existsSync(userOverridesDir)) {
+        for (const file of readdirSync(userOverridesDir).filter((f) => f.endsWith('.json'))) {
+          const user = parse(file).name.toLowerCase();
+          const override = loadOverride(join(userOverridesDir, file));
+          if (!override) continue;
+          snapshot.userOverrides[user] = override;
+          messages.push(`Loaded user overrides ${user}`);
+        }
+      }
+    }
+
+    if (existsSync(outboundsDir)) {
+      for (const file of readdirSync(outboundsDir).filter((f) => f.endsWith('.json'))) {
+        const code = parse(file).name.toUpperCase();
+        const outbounds = loadOutbounds(join(outboundsDir, file));
+        if (!outbounds) continue;
+        snapshot.outbounds[code] = outbounds;
+        messages.push(`Loaded outbounds for ${code}`);
+      }
+
+      const tagOutboundsDir = join(outboundsDir, 'tags');
+      if (existsSync(tagOutboundsDir)) {
+        for (const file of readdirSync(tagOutboundsDir).filter((f) => f.endsWith('.json'))) {
+          const tagName = parse(file).name;
+          const outbounds = loadOutbounds(join(tagOutboundsDir, file), true);
+          if (!outbounds) continue;
+          snapshot.tagOutbounds[tagName] = outbounds;
+          messages.push(`Loaded tag outbounds ${tagName}`);
+        }
+      }
+    }
+
+    /**
+     * `base.json`, `default.json` and per-country files of a tag or user directory
+     */
+    const loadPresetDir = (dirPath: string, inTag = false): TagPreset => {
+      const preset: TagPreset = { base: [], default: [], country: {} };
+
+      const baseFile = join(dirPath, 'base.json');
+      if (existsSync(baseFile)) {
+        preset.base = loadRules(baseFile, inTag) ?? [];
+      }
+
+      const defaultFile = join(dirPath, 'default.json');
+      if (existsSync(defaultFile)) {
+        preset.default = loadRules(defaultFile, inTag) ?? [];
+      }
+
+      for (const file of readdirSync(dirPath).filter(
+        (f) => f.endsWith('.json') && !['base.json', 'default.json'].includes(f),
+      )) {
+        const code = parse(file).name.toUpperCase();
+        const rules = loadRules(join(dirPath, file), inTag);
+        if (rules) preset.country[code] = rules;
+      }
+      return preset;
+    };
+
+    if (existsSync(tagsDir)) {
+      for (const dirent of readdirSync(tagsDir, { withFileTypes: true })) {
+        if (!dirent.isDirectory()) continue;
+        const tagName = dirent.name;
+        snapshot.tags[tagName] = loadPresetDir(join(tagsDir, tagName), true);
+        messages.push(`Loaded tag preset ${tagName}`);
+      }
+    } else {
+      messages.push('No tags directory found – skipping tag presets');
+    }
+
+    /**
+     * `<name>.json` and `<name>/` presets of the users or clients directory, by lower-cased name
+     */
+    const loadNamedPresets = (dir: string, kind: string) => {
+      const named: Record<string, TagPreset> = {};
+      if (!existsSync(dir)) return named;
+      for (const dirent of readdirSync(dir, { withFileTypes: true })) {
+        const presetPath = join(dir, dirent.name);
+        let name: string;
+        let preset: TagPreset;
+        if (dirent.isDirectory()) {
+          name = dirent.name.toLowerCase();
+          preset = loadPresetDir(presetPath);
+        } else if (dirent.name.endsWith('.json')) {
+          // `<name>.json` is the same as `<name>/base.json`
+          name = parse(dirent.name).name.toLowerCase();
+          preset = { base: loadRules(presetPath) ?? [], default: [], country: {} };
+        } else {
+          continue;
+        }
+        const existing = named[name];
+        const concat = (a: XrayRule[], b: XrayRule[]) => {
+          const rules = [...a, ...b];
+          sources.set(rules, [...(sources.get(a) ?? []), ...(sources.get(b) ?? [])]);
+          return rules;
+        };
+        named[name] = existing
+          ? {
+              base: concat(existing.base, preset.base),
+              default: concat(existing.default, preset.default),
+              country: { ...existing.country, ...preset.country },
+            }
+          : preset;
+        messages.push(`Loaded ${kind} preset ${name}`);
+      }
+      return named;
+    };
+
+    snapshot.users = loadNamedPresets(usersDir, 'user');
+    snapshot.clients = loadNamedPresets(clientsDir, 'client');
+
+    // Forget files that no longer exist
+    for (const file of parsedFiles.keys()) {
+      if (!seenFiles.has(file)) parsedFiles.delete(file);
+    }
+
+    return { snapshot, errors, warnings, messages };
+  };
+
+  /**
+   * Problems of a rule file about to be written, empty when it would load cleanly.
+   * Validation is always strict here, whatever the configured mode.
+   * @param file - path relative to `rulesDir`
+   */
+  const checkRuleFile = (file: string, value: unknown): string[] => {
+    if (!RULE_FILE_RE.test(file) || file === REGIONS_FILE) {
+      return [`${file} is not a rule file path`];
+    }
+    let rules: unknown;
+    try {
+      const expanded = expandIncludes(value, new Set(), []);
+      rules = Array.isArray(expanded) ? flattenRuleArray(expanded) : expanded;
+    } catch (error) {
+      return [String(error)];
+    }
+    const unknown = unknownVariables(rules, file.startsWith('tags/'));
+    if (unknown.length) {
+      return [`unknown variable(s) ${unknown.map((name) => `\${${name}}`).join(', ')}`];
+    }
+    return validateRules(rules, file).issues.map(formatIssue);
+  };
+
+  return {
+    load,
+    invalidate,
+    checkRuleFile,
+    /** Directories worth watching for changes */
+    watchedDirs: [rulesDir, overridesDir, outboundsDir],
+  };
+};
@@ -0,0 +1,88 @@
+import type {
+  ArrayMergeStrategies,
+  ArrayMergeStrategy,
+  JsonOptions,
+  JsonValue,
+} from '../types.js';
+
+/** Key of an override file holding its own array strategies */
+export const MERGE_STRATEGIES_KEY = '$merge';
+
+const isObject = (value: unknown): value is JsonOptions =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+export const isArrayMergeStrategy = (value: unknown): value is ArrayMergeStrategy =>
+  typeof value === 'string' &&
+  (['replace', 'append', 'prepend'].includes(value) || /^mergeBy:.+$/.test(value));
+
+const mergeArrays = (
+  target: JsonValue[],
+  patch: JsonValue[],
+  strategy: ArrayMergeStrategy,
+  strategies: ArrayMergeStrategies,
+  path: string,
+): JsonValue[] => {
+  if (strategy === 'append') return [...target, ...structuredClone(patch)];
+  if (strategy === 'prepend') return [...structuredClone(patch), ...target];
+  if (strategy === 'replace') return structuredClone(patch);
+
+  const key = strategy.slice('mergeBy:'.length);
+  const out = [...target];
+  for (const item of patch) {
+    const id = isObject(item) ? item[key] : undefined;
+    const index =
+      typeof id === 'undefined'
+        ? -1
+        : out.findIndex((existing) => isObject(existing) && existing[key] === id);
+    if (index === -1) out.push(structuredClone(item));
+    else out[index] = mergePatch(out[index], item, strategies, path);
+  }
+  return out;
+};
+
+/**
+ * RFC 7396 JSON Merge Patch: objects merge recursively, `null` removes a key,
+ * anything else replaces – except arrays with a strategy for their path
+ */
+export const mergePatch = (
+  target: JsonValue | undefined,
+  patch: JsonValue | null,
+  strategies: ArrayMergeStrategies = {},
+  path = '',
+): JsonValue => {
+  if (isObject(patch)) {
+    const out: JsonOptions = isObject(target) ? { ...target } : {};
+    for (const [key, value] of Object.entries(patch as Record<string, JsonValue | null>)) {
+      if (value === null) {
+        delete out[key];
+        continue;
+      }
+      out[key] = mergePatch(out[key], value, strategies, path ? `${path}.${key}` : key);
+    }
+    return out;
+  }
+
+  const strategy = strategies[path];
+  if (Array.isArray(patch) && Array.isArray(target) && strategy) {
+    return mergeArrays(target, patch, strategy, strategies, path);
+  }
+
+  return structuredClone(patch) as JsonValue;
+};
+
+/**
+ * Apply override layers in order, each with the default strategies
+ * extended by the layer's own `$merge` key
+ */
+export const applyOverrides = (
+  config: JsonOptions,
+  layers: JsonOptions[],
+  strategies: ArrayMergeStrategies = {},
+): JsonOptions =>
+  layers.reduce<JsonOptions>((acc, layer) => {
+    const { [MERGE_STRATEGIES_KEY]: own, ...patch } = layer;
+    const layerStrategies = isObject(own)
+      ? { ...strategies, ...(own as ArrayMergeStrategies) }
+      : strategies;
+    return mergePatch(acc, patch, layerStrategies) as JsonOptions;
+  }, config);
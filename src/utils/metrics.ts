@@ -0,0 +1,146 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+import type { PresetSnapshot } from './loadPresets.js';
+
+interface PanelStatus {
+  clients: number;
+  lastSuccessAt: number;
+  failures: number;
+}
+
+interface MetricsSources {
+  /** Presets currently in use, one snapshot per tenant */
+  getPresets: () => PresetSnapshot[];
+  /** Refresh state of the 3x-ui client list of every tenant with a panel configured */
+  getPanelStatus?: () => PanelStatus[];
+}
+
+const PREFIX = 'xui_rules_';
+
+/**
+ * Prometheus metrics of the service, in their own registry
+ */
+export const createMetrics = ({ getPresets, getPanelStatus }: MetricsSources) => {
+  const registry = new Registry();
+  collectDefaultMetrics({ register: registry, prefix: PREFIX });
+  const registers = [registry];
+
+  const metrics = {
+    registry,
+    requests: new Counter({
+      name: `${PREFIX}requests_total`,
+      help: 'Subscription requests by resolved country, EU flag, output format and status code',
+      labelNames: ['iso', 'eu', 'format', 'status'] as const,
+      registers,
+    }),
+    tagRequests: new Counter({
+      name: `${PREFIX}tag_requests_total`,
+      help: 'Subscription requests by active tag and status code',
+      labelNames: ['tag', 'status'] as const,
+      registers,
+    }),
+    geoipFailures: new Counter({
+      name: `${PREFIX}geoip_failures_total`,
+      help: 'Client addresses no GeoIP provider could resolve',
+      registers,
+    }),
+    geoipProviderErrors: new Counter({
+      name: `${PREFIX}geoip_provider_errors_total`,
+      help: 'Errors thrown by GeoIP providers',
+      labelNames: ['provider'] as const,
+      registers,
+    }),
+    countryCacheFallbacks: new Counter({
+      name: `${PREFIX}country_cache_fallbacks_total`,
+      help: 'Requests served with the last known country of the user',
+      registers,
+    }),
+    upstreamDuration: new Histogram({
+      name: `${PREFIX}upstream_fetch_duration_seconds`,
+      help: 'Time to get the subscription from upstream, by cache status',
+      labelNames: ['cache'] as const,
+      buckets: [0.005, 0.025, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+      registers,
+    }),
+    upstreamErrors: new Counter({
+      name: `${PREFIX}upstream_errors_total`,
+      help: 'Failed upstream fetches, stale="true" when the cached subscription was served instead',
+      labelNames: ['stale'] as const,
+      registers,
+    }),
+    transformFailures: new Counter({
+      name: `${PREFIX}transform_failures_total`,
+      help: 'Errors thrown by the transform hook',
+      registers,
+    }),
+    danglingRefs: new Counter({
+      name: `${PREFIX}dangling_refs_total`,
+      help: 'Rules pointing at an outbound or balancer the config does not define, by field',
+      labelNames: ['field'] as const,
+      registers,
+    }),
+    optimizedRules: new Counter({
+      name: `${PREFIX}optimizer_removed_total`,
+      help: 'What the rule optimizer removed: unreachable rules, merged rules or single entries',
+      labelNames: ['kind'] as const,
+      registers,
+    }),
+  };
+
+  new Gauge({
+    name: `${PREFIX}presets`,
+    help: 'Loaded presets by kind',
+    labelNames: ['kind'] as const,
+    registers,
+    collect() {
+      const counts = { country: 0, reverse: 0, override: 0, tag: 0, user: 0 };
+      for (const snapshot of getPresets()) {
+        const { rules, reverse, overrides, tagOverrides, tags, users, userOverrides } = snapshot;
+        const countries = Object.keys(rules).filter((key) => key !== 'BASE' && key !== 'DEFAULT');
+        counts.country += countries.length;
+        counts.reverse += reverse.length;
+        counts.override += [overrides, tagOverrides, userOverrides].reduce(
+          (sum, map) => sum + Object.keys(map).length,
+          0,
+        );
+        counts.tag += Object.keys(tags).length;
+        counts.user += Object.keys(users).length;
+      }
+      for (const [kind, count] of Object.entries(counts)) this.set({ kind }, count);
+    },
+  });
+
+  // With several tenants, panel gauges report the sum of clients and the worst panel
+  if (getPanelStatus) {
+    new Gauge({
+      name: `${PREFIX}panel_clients`,
+      help: 'Clients in the last lists fetched from the 3x-ui panels',
+      registers,
+      collect() {
+        this.set(getPanelStatus().reduce((sum, status) => sum + status.clients, 0));
+      },
+    });
+    new Gauge({
+      name: `${PREFIX}panel_refresh_failures`,
+      help: 'Most 3x-ui panel refreshes failed in a row, 0 after a successful one',
+      registers,
+      collect() {
+        this.set(Math.max(0, ...getPanelStatus().map((status) => status.failures)));
+      },
+    });
+    new Gauge({
+      name: `${PREFIX}panel_last_success_timestamp_seconds`,
+      help: 'Oldest time of the last successful 3x-ui panel refresh, 0 if none yet',
+      registers,
+      collect() {
+        const statuses = getPanelStatus();
+        if (!statuses.length) return this.set(0);
+        this.set(Math.min(...statuses.map((status) => status.lastSuccessAt)) / 1000);
+      },
+    });
+  }
+
+  return metrics;
+};
+
+export type Metrics = ReturnType<typeof createMetrics>;
@@ -0,0 +1,182 @@
+import { cidrContains, parseCidr, type Cidr } from './cidr.js';
+
+import type { JsonOptions, XrayRule } from '../types.js';
+
+export interface OptimizationReport {
+  /** Rules dropped because earlier rules match everything they match */
+  unreachableRules: number;
+  /** Rules folded into the adjacent rule before them */
+  mergedRules: number;
+  /** `domain`/`ip` entries dropped because an earlier rule already matches them */
+  removedEntries: number;
+}
+
+type Rule = XrayRule & Record<string, unknown>;
+
+/** Fields that describe a rule without restricting what it matches */
+const NON_MATCHING_FIELDS = new Set([
+  'type',
+  'enabled',
+  'outboundTag',
+  'balancerTag',
+  'ruleTag',
+  'remarks',
+  'domainMatcher',
+]);
+
+/** Matchers whose entries are OR-ed, so a rule can be split or merged along them */
+const ENTRY_FIELDS = ['domain', 'ip'] as const;
+type EntryField = (typeof ENTRY_FIELDS)[number];
+
+const normalize = (value: unknown): string =>
+  JSON.stringify(Array.isArray(value) ? [...value].sort() : (value ?? null));
+
+/** A `domain:`/`full:` value, or null for matchers we cannot reason about */
+const domainValue = (entry: string) => /^(?:domain|full):(.+)$/.exec(entry)?.[1] ?? null;
+
+/** Keyword of a `keyword:` or prefix-less (substring) domain matcher */
+const keywordValue = (entry: string) =>
+  entry.startsWith('keyword:') ? entry.slice(8) : entry.includes(':') ? null : entry;
+
+/**
+ * Whether every domain `entry` matches is also matched by `outer`
+ */
+const domainCovers = (outer: string, entry: string) => {
+  if (outer === entry) return true;
+  const value = domainValue(entry) ?? keywordValue(entry);
+  if (value === null) return false;
+  if (outer.startsWith('domain:') && domainValue(entry) !== null) {
+    const suffix = outer.slice(7);
+    return value === suffix || value.endsWith(`.${suffix}`);
+  }
+  const keyword = keywordValue(outer);
+  return keyword !== null && value.includes(keyword);
+};
+
+/**
+ * Whether every address `entry` matches is also matched by `outer`
+ */
+const ipCovers = (outer: string, entry: string, cidrs: Map<string, Cidr | null>) => {
+  if (outer === entry) return true;
+  const parse = (value: string) => {
+    if (!cidrs.has(value)) cidrs.set(value, parseCidr(value));
+    return cidrs.get(value)!;
+  };
+  const outerCidr = parse(outer);
+  const entryCidr = parse(entry);
+  return Boolean(outerCidr && entryCidr && cidrContains(outerCidr, entryCidr));
+};
+
+const conditionFields = (rule: Rule) =>
+  Object.keys(rule).filter((field) => !NON_MATCHING_FIELDS.has(field));
+
+/**
+ * The only field in which two rules with the same target differ, when merging them is safe
+ */
+const mergeableField = (a: Rule, b: Rule): EntryField | null => {
+  if (a.enabled === false || b.enabled === false) return null;
+  const fields = new Set([...Object.keys(a), ...Object.keys(b)]);
+  fields.delete('remarks');
+  let differing: EntryField | null = null;
+  for (const field of fields) {
+    if (normalize(a[field]) === normalize(b[field])) continue;
+    const isEntryField = (ENTRY_FIELDS as readonly string[]).includes(field);
+    if (differing || !isEntryField || !Array.isArray(a[field]) || !Array.isArray(b[field])) {
+      return null;
+    }
+    differing = field as EntryField;
+  }
+  return differing;
+};
+
+/**
+ * Rewrite routing rules into a shorter list that routes every connection the same way:
+ * - `domain`/`ip` entries and whole rules that an earlier rule always matches first are dropped;
+ * - adjacent rules with the same target that differ in one of `domain`/`ip` only are merged.
+ * Any other matcher only counts as covered when it is equal in both rules.
+ */
+export const optimizeRules = (rules: XrayRule[]) => {
+  const report: OptimizationReport = { unreachableRules: 0, mergedRules: 0, removedEntries: 0 };
+  const cidrs = new Map<string, Cidr | null>();
+  const kept: Rule[] = [];
+
+  /**
+   * Whether `earlier` matches every connection `rule` matches
+   */
+  const covers = (earlier: Rule, rule: Rule) =>
+    conditionFields(earlier).every((field) => {
+      const outer = earlier[field];
+      const inner = rule[field];
+      if (inner === undefined) return false;
+      if ((field === 'domain' || field === 'ip') && Array.isArray(outer) && Array.isArray(inner)) {
+        const matches =
+          field === 'domain' ? domainCovers : (o: string, e: string) => ipCovers(o, e, cidrs);
+        return inner.every((entry) => outer.some((o) => matches(o, entry)));
+      }
+      return normalize(outer) === normalize(inner);
+    });
+
+  for (const original of rules as Rule[]) {
+    // Disabled rules never match, leave them alone
+    if (original.enabled === false || !conditionFields(original).length) {
+      kept.push(original);
+      continue;
+    }
+    const earlierRules = kept.filter((rule) => rule.enabled !== false && conditionFields(rule).length);
+    if (earlierRules.some((earlier) => covers(earlier, original))) {
+      report.unreachableRules += 1;
+      continue;
+    }
+
+    const rule: Rule = { ...original };
+    let unreachable = false;
+    for (const field of ENTRY_FIELDS) {
+      const entries = rule[field];
+      if (!Array.isArray(entries) || entries.length < 2) continue;
+      // An entry is dead when the rule narrowed down to it is covered
+      const alive = [...new Set(entries)].filter(
+        (entry) => !earlierRules.some((earlier) => covers(earlier, { ...rule, [field]: [entry] })),
+      );
+      if (!alive.length) {
+        // Each entry is covered by a different earlier rule
+        unreachable = true;
+        break;
+      }
+      report.removedEntries += entries.length - alive.length;
+      rule[field] = alive;
+    }
+    if (unreachable) {
+      report.unreachableRules += 1;
+      continue;
+    }
+
+    const previous = kept.at(-1);
+    const mergeField = previous && mergeableField(previous, rule);
+    if (previous && mergeField) {
+      const entries = [...(previous[mergeField] as string[]), ...(rule[mergeField] as string[])];
+      const merged = [...new Set(entries)];
+      report.removedEntries += entries.length - merged.length;
+      kept[kept.length - 1] = { ...previous, [mergeField]: merged };
+      report.mergedRules += 1;
+      continue;
+    }
+    kept.push(rule);
+  }
+
+  return { rules: kept as XrayRule[], report };
+};
+
+/**
+ * `optimizeRules` applied to `routing.rules` of a config
+ */
+export const optimizeConfigRules = (json: JsonOptions) => {
+  const rules = (json.routing as JsonOptions | undefined)?.rules;
+  if (!Array.isArray(rules)) {
+    return { json, report: { unreachableRules: 0, mergedRules: 0, removedEntries: 0 } };
+  }
+  const { rules: optimized, report } = optimizeRules(rules as unknown as XrayRule[]);
+  return {
+    json: { ...json, routing: { ...(json.routing as JsonOptions), rules: optimized } },
+    report,
+  };
+};
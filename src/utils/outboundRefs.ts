@@ -0,0 +1,48 @@
+import type { JsonOptions, JsonValue } from '../types.js';
+
+export interface DanglingRef {
+  /** Position of the rule in `routing.rules` */
+  index: number;
+  field: 'outboundTag' | 'balancerTag';
+  /** The tag nothing defines */
+  tag: string;
+}
+
+const isObject = (value: JsonValue | undefined): value is JsonOptions =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const tagsOf = (items: JsonValue | undefined) =>
+  new Set(
+    (Array.isArray(items) ? items : []).flatMap((item) =>
+      isObject(item) && typeof item.tag === 'string' ? [item.tag] : [],
+    ),
+  );
+
+/**
+ * Rules whose `outboundTag` is not in `outbounds`, or whose `balancerTag` is not in
+ * `routing.balancers`, and the config without them.
+ * A config without an `outbounds` array is not checked.
+ */
+export const dropDanglingRefs = (config: JsonOptions) => {
+  const dangling: DanglingRef[] = [];
+  if (!Array.isArray(config.outbounds)) return { config, dangling };
+  const routing = isObject(config.routing) ? config.routing : {};
+  const rules = Array.isArray(routing.rules) ? routing.rules : [];
+  const outboundTags = tagsOf(config.outbounds);
+  const balancerTags = tagsOf(routing.balancers);
+
+  const kept = rules.filter((rule, index) => {
+    if (!isObject(rule)) return true;
+    if (typeof rule.outboundTag === 'string' && !outboundTags.has(rule.outboundTag)) {
+      dangling.push({ index, field: 'outboundTag', tag: rule.outboundTag });
+      return false;
+    }
+    if (typeof rule.balancerTag === 'string' && !balancerTags.has(rule.balancerTag)) {
+      dangling.push({ index, field: 'balancerTag', tag: rule.balancerTag });
+      return false;
+    }
+    return true;
+  });
+  if (!dangling.length) return { config, dangling };
+  return { config: { ...config, routing: { ...routing, rules: kept } }, dangling };
+};
@@ -0,0 +1,61 @@
+export interface Region {
+  /** Upper-case region name, e.g. `EU`, `CIS` */
+  name: string;
+  /** ISO-3166 alpha-2 codes of the member countries */
+  countries: Set<string>;
+}
+
+/** File in `rulesDir` defining the regions */
+export const REGIONS_FILE = 'regions.json';
+
+/**
+ * Built-in region, membership comes from the GeoIP EU flag
+ */
+const EU_REGION = 'EU';
+
+/**
+ * Parse `{ "CIS": ["RU", "BY", …], … }`, keeping the file order.
+ * `EU` is always defined: first unless the file places it elsewhere.
+ */
+export const parseRegions = (value: unknown): Region[] => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('expected an object of region name → ISO codes');
+  }
+  const regions = Object.entries(value).map(([name, codes]) => {
+    if (!Array.isArray(codes) || codes.some((c) => typeof c !== 'string' || !/^[A-Za-z]{2}$/.test(c))) {
+      throw new Error(`region "${name}": expected an array of ISO-3166 alpha-2 codes`);
+    }
+    if (/^[A-Za-z]{2}$/.test(name) && name.toUpperCase() !== EU_REGION) {
+      throw new Error(`region "${name}": two-letter names are reserved for countries`);
+    }
+    return {
+      name: name.toUpperCase(),
+      countries: new Set(codes.map((c: string) => c.toUpperCase())),
+    };
+  });
+  if (!regions.some((r) => r.name === EU_REGION)) {
+    regions.unshift({ name: EU_REGION, countries: new Set() });
+  }
+  return regions;
+};
+
+export const DEFAULT_REGIONS = parseRegions({});
+
+/**
+ * Regions of a visitor, in definition order
+ * @param forced - regions requested explicitly, e.g. with `?country=CIS`
+ */
+export const resolveRegions = (
+  regions: Region[],
+  iso: string,
+  isEU: boolean,
+  forced: Set<string> = new Set(),
+): string[] =>
+  regions
+    .filter(
+      ({ name, countries }) =>
+        forced.has(name) ||
+        countries.has(iso) ||
+        (name === EU_REGION && isEU),
+    )
+    .map(({ name }) => name);
@@ -12,17 +12,32 @@ const normalizeRuleField = (value: unknown): string => {
   return JSON.stringify(value ?? null);
 };
 
-export const removeDuplicateRules = (json: JsonOptions) => {
+export interface DuplicateRemoval {
+  /** Index of the rule in the original list */
+  rule: number;
+  /** Matcher the value was removed from, unset when the whole rule was dropped */
+  field?: 'domain' | 'ip';
+  value?: string | number;
+  reason: string;
+}
+
+export const removeDuplicateRules = (
+  json: JsonOptions,
+  onRemove?: (removal: DuplicateRemoval) => void,
+) => {
   const rules = (json.routing as JsonOptions)?.rules as unknown as XrayRule[];
 
   if (!rules) return json;
 
-  const inbounds: Record<string, Set<string | number>> = {
-    default: new Set(),
+  /**
+   * Matcher values seen per dedupe key, with the index of the rule that had them first
+   */
+  const inbounds: Record<string, Map<string | number, number>> = {
+    default: new Map(),
   };
   const finalRules: XrayRule[] = [];
 
-  for (const originalRule of rules) {
+  for (const [index, originalRule] of rules.entries()) {
     const rule = JSON.parse(JSON.stringify(originalRule));
     const dedupeKey = [
       ['inboundTag', rule.inboundTag],
@@ -36,25 +51,34 @@ export const removeDuplicateRules = (json: JsonOptions) => {
     ]
       .map(([key, value]) => `${key}:${normalizeRuleField(value)}`)
       .join('|');
-    const seenRules = inbounds[dedupeKey] || (inbounds[dedupeKey] = new Set());
+    const seenRules = inbounds[dedupeKey] || (inbounds[dedupeKey] = new Map());
+    const keep = (field: 'domain' | 'ip') => (value: string | number) => {
+      const firstRule = seenRules.get(value);
+      if (typeof firstRule === 'undefined') {
+        seenRules.set(value, index);
+        return true;
+      }
+      onRemove?.({
+        rule: index,
+        field,
+        value,
+        reason:
+          firstRule === index
+            ? 'repeated within the same rule'
+            : `already matched by rule #${firstRule}`,
+      });
+      return false;
+    };
 
     const hadDomains = Array.isArray(rule.domain);
     const hadIps = Array.isArray(rule.ip);
 
     if (hadDomains) {
-      rule.domain = rule.domain.filter((d: string | number) => {
-        if (seenRules.has(d)) return false;
-        seenRules.add(d);
-        return true;
-      });
+      rule.domain = rule.domain.filter(keep('domain'));
     }
 
     if (hadIps) {
-      rule.ip = rule.ip.filter((i: string | number) => {
-        if (seenRules.has(i)) return false;
-        seenRules.add(i);
-        return true;
-      });
+      rule.ip = rule.ip.filter(keep('ip'));
     }
 
     const hasDomainsNow = hadDomains && rule.domain.length > 0;
@@ -64,6 +88,7 @@ export const removeDuplicateRules = (json: JsonOptions) => {
     // A rule object that never had domain/ip rules is kept.
     if ((hadDomains || hadIps) && !hasDomainsNow && !hasIpsNow) {
       // This rule became empty, so we skip it.
+      onRemove?.({ rule: index, reason: 'every domain/ip entry was a duplicate' });
       continue;
     }
 
@@ -0,0 +1,100 @@
+import Fastify from 'fastify';
+
+import { createServer } from '../createServer.js';
+
+import type { CreateServerProps, OutputFormat } from '../types.js';
+
+/**
+ * A client as seen by the server, for a render without GeoIP, upstream or 3x-ui
+ */
+export interface LocalRequest {
+  /** Upstream subscription config (or array of configs) */
+  upstream: unknown;
+  /** Subscription id, for per-user presets and `when` conditions (default `local`) */
+  subId?: string;
+  /** ISO code or region name */
+  country?: string;
+  eu?: boolean;
+  tags?: string[];
+  /** Comment of the 3x-ui client, e.g. `tags=gaming; country=DE` */
+  comment?: string;
+  /** Email of the 3x-ui client, for per-user presets */
+  email?: string;
+  format?: OutputFormat;
+  /** User-Agent of the client app, e.g. `v2rayNG/1.8.5` */
+  userAgent?: string;
+  headers?: Record<string, string>;
+  /** Date and time of the request for `weekday`/`hour` conditions, e.g. `2025-06-07T10:00:00Z` */
+  now?: string;
+}
+
+/**
+ * Run one request through `createServer`, with upstream and the 3x-ui panel answered from
+ * memory on a loopback port. GeoIP, the watcher, metrics and persistence are off, so the
+ * response only depends on the presets and the request.
+ */
+export const renderLocal = async (
+  options: Partial<CreateServerProps>,
+  {
+    upstream,
+    subId = 'local',
+    country,
+    eu,
+    tags,
+    comment,
+    email,
+    format,
+    userAgent,
+    headers,
+    now,
+  }: LocalRequest,
+) => {
+  const pinned = now === undefined ? undefined : new Date(now);
+  if (pinned && Number.isNaN(pinned.getTime())) throw new Error(`invalid now "${now}"`);
+  const mock = Fastify({ logger: false });
+  mock.get('/sub/*', (_, reply) => reply.type('application/json').send(JSON.stringify(upstream)));
+  mock.get('/panel/api/inbounds/list', async () => ({
+    success: true,
+    obj: [{ id: 1, settings: { clients: [{ subId, email, comment: comment ?? '' }] } }],
+  }));
+  await mock.listen({ port: 0, host: '127.0.0.1' });
+  const address = `http://127.0.0.1:${mock.addresses()[0].port}`;
+
+  try {
+    const secretUrl = 'local';
+    const app = await createServer({
+      ...options,
+      upstreamUrl: `${address}/sub`,
+      secretUrl,
+      rulesDir: options.rulesDir ?? 'rules',
+      xuiOptions:
+        comment !== undefined || email !== undefined
+          ? { panelAddress: address, token: 'local', inboundIds: [1], refreshInterval: 0 }
+          : undefined,
+      logger: false,
+      watch: false,
+      geoip: [],
+      metrics: undefined,
+      countryCache: {},
+      tenants: [],
+      upstream: { retries: 0 },
+      now: pinned ? () => pinned : options.now,
+    });
+    try {
+      const query = new URLSearchParams();
+      if (country) query.set('country', country);
+      if (eu !== undefined) query.set('isEU', String(eu));
+      if (tags?.length) query.set('tags', tags.join(','));
+      if (format) query.set('format', format);
+      const response = await app.inject({
+        url: `/${secretUrl}/json/${encodeURIComponent(subId)}?${query}`,
+        headers: userAgent ? { ...headers, 'user-agent': userAgent } : headers,
+      });
+      return { statusCode: response.statusCode, body: response.body };
+    } finally {
+      await app.close();
+    }
+  } finally {
+    await mock.close();
+  }
+};
@@ -0,0 +1,126 @@
+import type { FormatConversion, OutputFormatOptions, XrayRule } from '../types.js';
+
+const DEFAULT_OUTBOUNDS: Record<string, string> = {
+  direct: 'DIRECT',
+  block: 'REJECT',
+  proxy: 'PROXY',
+};
+
+const IGNORED_FIELDS = new Set(['type', 'remarks', 'enabled', 'domainMatcher', 'outboundTag', 'ruleTag']);
+
+/** Join conditions of one field (OR) or of several fields (AND) into a logic rule */
+const logic = (op: 'AND' | 'OR', parts: string[]) =>
+  parts.length === 1 ? parts[0] : `${op},(${parts.map((p) => `(${p})`).join(',')})`;
+
+/**
+ * Translate Xray routing rules into mihomo (Clash Meta) `rules`
+ * @see https://wiki.metacubex.one/en/config/rules/
+ */
+export const toMihomo = (
+  rules: XrayRule[],
+  { outbounds = {} }: OutputFormatOptions = {},
+): FormatConversion<{ rules: string[] }> => {
+  const warnings: string[] = [];
+  const outboundMap = { ...DEFAULT_OUTBOUNDS, ...outbounds };
+  const out: string[] = [];
+
+  rules.forEach((rule, index) => {
+    const where = `rule #${index}${rule.remarks ? ` (${rule.remarks})` : ''}`;
+    if ((rule as { enabled?: boolean }).enabled === false) return;
+    const source = rule as XrayRule & Record<string, unknown>;
+    if (source.balancerTag) {
+      warnings.push(`${where}: balancerTag is not supported, rule skipped`);
+      return;
+    }
+
+    // Conditions per Xray field: any of them matches (OR), every field must match (AND)
+    const fields: string[][] = [];
+    /** Xray fields with no condition left, matching on the others would widen the rule */
+    const unexpressed: string[] = [];
+
+    const domains = (rule.domain ?? []).flatMap((entry) => {
+      const [prefix, ...rest] = entry.split(':');
+      const value = rest.join(':');
+      if (!rest.length) return [`DOMAIN-KEYWORD,${entry}`];
+      if (prefix === 'domain') return [`DOMAIN-SUFFIX,${value}`];
+      if (prefix === 'full') return [`DOMAIN,${value}`];
+      if (prefix === 'keyword') return [`DOMAIN-KEYWORD,${value}`];
+      if (prefix === 'regexp') return [`DOMAIN-REGEX,${value}`];
+      if (prefix === 'geosite' && !value.includes('@')) return [`GEOSITE,${value}`];
+      warnings.push(`${where}: domain "${entry}" cannot be expressed`);
+      return [];
+    });
+    if (domains.length) fields.push(domains);
+    else if (rule.domain?.length) unexpressed.push('domain');
+
+    const ips = (rule.ip ?? []).flatMap((entry) => {
+      if (entry === 'geoip:private') return ['GEOIP,LAN'];
+      if (entry.startsWith('geoip:!') || entry.startsWith('ext:')) {
+        warnings.push(`${where}: ip "${entry}" cannot be expressed`);
+        return [];
+      }
+      if (entry.startsWith('geoip:')) return [`GEOIP,${entry.slice(6).toUpperCase()}`];
+      return [entry.includes(':') ? `IP-CIDR6,${entry}` : `IP-CIDR,${entry}`];
+    });
+    if (ips.length) fields.push(ips);
+    else if (rule.ip?.length) unexpressed.push('ip');
+
+    for (const [field, value] of Object.entries(source)) {
+      if (IGNORED_FIELDS.has(field) || field === 'domain' || field === 'ip') continue;
+      const list = Array.isArray(value) ? (value as string[]) : String(value).split(',').map((v) => v.trim());
+      switch (field) {
+        case 'port':
+          fields.push(list.map((p) => `DST-PORT,${p}`));
+          break;
+        case 'sourcePort':
+          fields.push(list.map((p) => `SRC-PORT,${p}`));
+          break;
+        case 'network':
+          fields.push(list.map((n) => `NETWORK,${n.toUpperCase()}`));
+          break;
+        case 'source':
+        case 'sourceIP':
+          fields.push(list.map((v) => `SRC-IP-CIDR,${v}`));
+          break;
+        case 'inboundTag':
+          fields.push(list.map((v) => `IN-NAME,${v}`));
+          break;
+        case 'user':
+          fields.push(list.map((v) => `IN-USER,${v}`));
+          break;
+        case 'process':
+          fields.push(list.map((v) => `PROCESS-NAME,${v}`));
+          break;
+        default:
+          unexpressed.push(field);
+      }
+    }
+
+    if (unexpressed.length) {
+      const list = unexpressed.map((field) => `"${field}"`).join(', ');
+      warnings.push(`${where}: field ${list} cannot be expressed, rule skipped`);
+      return;
+    }
+
+    if (!fields.length) {
+      warnings.push(`${where}: no condition left, rule skipped`);
+      return;
+    }
+
+    const target = outboundMap[rule.outboundTag] ?? rule.outboundTag;
+    if (fields.length === 1) {
+      // A single field needs no logic rule: one line per entry keeps the list readable
+      fields[0].forEach((condition) => out.push(`${condition},${target}`));
+      return;
+    }
+    out.push(`${logic('AND', fields.map((conditions) => logic('OR', conditions)))},${target}`);
+  });
+
+  return { document: { rules: out }, warnings };
+};
+
+/**
+ * The rules as a YAML document, every entry quoted
+ */
+export const mihomoToYaml = ({ rules }: { rules: string[] }) =>
+  `rules:\n${rules.map((rule) => `  - ${JSON.stringify(rule)}`).join('\n')}\n`;
@@ -0,0 +1,175 @@
+import type { FormatConversion, OutputFormatOptions, XrayRule } from '../types.js';
+
+type SingBoxRule = Record<string, unknown>;
+
+interface SingBoxRuleSet {
+  tag: string;
+  type: 'remote';
+  format: 'binary';
+  url: string;
+}
+
+const DEFAULT_RULE_SET_URLS = {
+  geosite: 'https://raw.githubusercontent.com/SagerNet/sing-geosite/rule-set/geosite-{name}.srs',
+  geoip: 'https://raw.githubusercontent.com/SagerNet/sing-geoip/rule-set/geoip-{name}.srs',
+};
+
+/** Xray outbounds that become a rule action instead of an outbound */
+const DEFAULT_OUTBOUNDS: Record<string, string> = {
+  block: 'reject',
+};
+
+/** Fields with nothing to translate */
+const IGNORED_FIELDS = new Set(['type', 'remarks', 'enabled', 'domainMatcher', 'outboundTag', 'ruleTag']);
+
+const splitPorts = (value: string | number) => {
+  const ports: number[] = [];
+  const ranges: string[] = [];
+  for (const part of String(value).split(',').map((p) => p.trim()).filter(Boolean)) {
+    if (part.includes('-')) ranges.push(part.replace('-', ':'));
+    else ports.push(Number(part));
+  }
+  return { ports, ranges };
+};
+
+/**
+ * Translate Xray routing rules into sing-box `route.rules` and the `rule_set` they need
+ * @see https://sing-box.sagernet.org/configuration/route/rule/
+ */
+export const toSingBox = (
+  rules: XrayRule[],
+  { outbounds = {}, ruleSetUrls = {} }: OutputFormatOptions = {},
+): FormatConversion<{ route: { rules: SingBoxRule[]; rule_set: SingBoxRuleSet[] } }> => {
+  const warnings: string[] = [];
+  const ruleSets = new Map<string, SingBoxRuleSet>();
+  const urls = { ...DEFAULT_RULE_SET_URLS, ...ruleSetUrls };
+  const outboundMap = { ...DEFAULT_OUTBOUNDS, ...outbounds };
+
+  const ruleSetOf = (kind: 'geosite' | 'geoip', name: string): SingBoxRuleSet => ({
+    tag: `${kind}-${name.toLowerCase()}`,
+    type: 'remote',
+    format: 'binary',
+    url: urls[kind].replace('{name}', name.toLowerCase()),
+  });
+
+  const out: SingBoxRule[] = [];
+  rules.forEach((rule, index) => {
+    const where = `rule #${index}${rule.remarks ? ` (${rule.remarks})` : ''}`;
+    if ((rule as { enabled?: boolean }).enabled === false) return;
+    const source = rule as XrayRule & Record<string, unknown>;
+    if (source.balancerTag) {
+      warnings.push(`${where}: balancerTag is not supported, rule skipped`);
+      return;
+    }
+
+    // sing-box ORs domain and ip conditions, so they are kept apart until the end
+    const domainMatchers: SingBoxRule = {};
+    const ipMatchers: SingBoxRule = {};
+    const otherMatchers: SingBoxRule = {};
+    const add = (group: SingBoxRule, key: string, value: unknown) =>
+      ((group[key] ??= []) as unknown[]).push(value);
+    /** Xray fields with no condition left, matching on the others would widen the rule */
+    const unexpressed: string[] = [];
+    /** Rule sets of this rule, declared only when the rule is kept */
+    const used: SingBoxRuleSet[] = [];
+    const useRuleSet = (kind: 'geosite' | 'geoip', name: string) => {
+      const ruleSet = ruleSetOf(kind, name);
+      used.push(ruleSet);
+      return ruleSet.tag;
+    };
+
+    for (const entry of rule.domain ?? []) {
+      const [prefix, ...rest] = entry.split(':');
+      const value = rest.join(':');
+      if (!rest.length) add(domainMatchers, 'domain_keyword', entry);
+      else if (prefix === 'domain') add(domainMatchers, 'domain_suffix', value);
+      else if (prefix === 'full') add(domainMatchers, 'domain', value);
+      else if (prefix === 'keyword') add(domainMatchers, 'domain_keyword', value);
+      else if (prefix === 'regexp') add(domainMatchers, 'domain_regex', value);
+      else if (prefix === 'geosite' && !value.includes('@'))
+        add(domainMatchers, 'rule_set', useRuleSet('geosite', value));
+      else warnings.push(`${where}: domain "${entry}" cannot be expressed`);
+    }
+    if (rule.domain?.length && !Object.keys(domainMatchers).length) unexpressed.push('domain');
+
+    for (const entry of rule.ip ?? []) {
+      if (entry === 'geoip:private') ipMatchers.ip_is_private = true;
+      else if (entry.startsWith('geoip:!') || entry.startsWith('ext:'))
+        warnings.push(`${where}: ip "${entry}" cannot be expressed`);
+      else if (entry.startsWith('geoip:'))
+        add(ipMatchers, 'rule_set', useRuleSet('geoip', entry.slice(6)));
+      else add(ipMatchers, 'ip_cidr', entry);
+    }
+    if (rule.ip?.length && !Object.keys(ipMatchers).length) unexpressed.push('ip');
+
+    for (const [field, value] of Object.entries(source)) {
+      if (IGNORED_FIELDS.has(field) || field === 'domain' || field === 'ip') continue;
+      switch (field) {
+        case 'port':
+        case 'sourcePort': {
+          const { ports, ranges } = splitPorts(value as string | number);
+          const key = field === 'port' ? 'port' : 'source_port';
+          ports.forEach((p) => add(otherMatchers, key, p));
+          ranges.forEach((r) => add(otherMatchers, `${key}_range`, r));
+          break;
+        }
+        case 'network':
+          String(value)
+            .split(',')
+            .map((n) => n.trim())
+            .forEach((n) => add(otherMatchers, 'network', n));
+          break;
+        case 'source':
+        case 'sourceIP':
+          (value as string[]).forEach((v) => add(otherMatchers, 'source_ip_cidr', v));
+          break;
+        case 'protocol':
+          (value as string[]).forEach((v) => add(otherMatchers, 'protocol', v));
+          break;
+        case 'inboundTag':
+          (value as string[]).forEach((v) => add(otherMatchers, 'inbound', v));
+          break;
+        case 'user':
+          (value as string[]).forEach((v) => add(otherMatchers, 'auth_user', v));
+          break;
+        case 'process':
+          (value as string[]).forEach((v) => add(otherMatchers, 'process_name', v));
+          break;
+        default:
+          unexpressed.push(field);
+      }
+    }
+
+    if (unexpressed.length) {
+      const list = unexpressed.map((field) => `"${field}"`).join(', ');
+      warnings.push(`${where}: field ${list} cannot be expressed, rule skipped`);
+      return;
+    }
+
+    const matchers: SingBoxRule =
+      Object.keys(domainMatchers).length && Object.keys(ipMatchers).length
+        ? {
+            type: 'logical',
+            mode: 'and',
+            rules: [{ ...domainMatchers, ...otherMatchers }, ipMatchers],
+          }
+        : { ...domainMatchers, ...ipMatchers, ...otherMatchers };
+    if (!Object.keys(matchers).length) {
+      warnings.push(`${where}: no condition left, rule skipped`);
+      return;
+    }
+
+    used.forEach((ruleSet) => ruleSets.has(ruleSet.tag) || ruleSets.set(ruleSet.tag, ruleSet));
+    const target = outboundMap[rule.outboundTag] ?? rule.outboundTag;
+    out.push(
+      target === 'reject'
+        ? { ...matchers, action: 'reject' }
+        : { ...matchers, action: 'route', outbound: target },
+    );
+  });
+
+  return {
+    document: { route: { rules: out, rule_set: [...ruleSets.values()] } },
+    warnings,
+  };
+};
@@ -0,0 +1,293 @@
+import { MERGE_STRATEGIES_KEY, isArrayMergeStrategy } from './mergeOverrides.js';
+import { validateCondition } from './conditions.js';
+
+import type { JsonOptions, XrayRule } from '../types.js';
+
+export interface ValidationIssue {
+  file: string;
+  /** Index of the rule inside the file, when the issue belongs to a rule */
+  index?: number;
+  field?: string;
+  message: string;
+}
+
+export type ValidationMode = 'strict' | 'lenient';
+
+type FieldKind = 'stringArray' | 'string' | 'port' | 'boolean' | 'object' | 'condition';
+
+/**
+ * Fields of an Xray routing rule, plus `remarks`/`enabled` used by 3x-ui
+ * and our own `when`, stripped before output
+ * @see https://xtls.github.io/en/config/routing.html#ruleobject
+ */
+const RULE_FIELDS: Record<string, FieldKind> = {
+  type: 'string',
+  domainMatcher: 'string',
+  domain: 'stringArray',
+  ip: 'stringArray',
+  port: 'port',
+  sourcePort: 'port',
+  localPort: 'port',
+  network: 'string',
+  source: 'stringArray',
+  sourceIP: 'stringArray',
+  localIP: 'stringArray',
+  user: 'stringArray',
+  vlessRoute: 'port',
+  inboundTag: 'stringArray',
+  protocol: 'stringArray',
+  process: 'stringArray',
+  attrs: 'object',
+  outboundTag: 'string',
+  balancerTag: 'string',
+  ruleTag: 'string',
+  remarks: 'string',
+  enabled: 'boolean',
+  when: 'condition',
+};
+
+/** Fields that do not restrict which traffic a rule matches */
+export const NON_MATCHER_FIELDS = new Set([
+  'type',
+  'domainMatcher',
+  'outboundTag',
+  'balancerTag',
+  'ruleTag',
+  'remarks',
+  'enabled',
+  'when',
+]);
+
+const NETWORK_RE = /^(tcp|udp)(\s*,\s*(tcp|udp))?$/;
+
+/**
+ * Top-level keys of an Xray config that an override may replace
+ * @see https://xtls.github.io/en/config/
+ */
+const OVERRIDE_FIELDS: Record<string, 'object' | 'array'> = {
+  log: 'object',
+  api: 'object',
+  dns: 'object',
+  routing: 'object',
+  policy: 'object',
+  inbounds: 'array',
+  outbounds: 'array',
+  transport: 'object',
+  stats: 'object',
+  reverse: 'object',
+  fakedns: 'array',
+  metrics: 'object',
+  observatory: 'object',
+  burstObservatory: 'object',
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const suggest = (field: string, known: string[]) => {
+  const lower = field.toLowerCase();
+  const match =
+    known.find((k) => k.toLowerCase() === lower) ??
+    known.find((k) => k.toLowerCase().startsWith(lower) || lower.startsWith(k.toLowerCase()));
+  return match ? ` (did you mean "${match}"?)` : '';
+};
+
+const checkField = (kind: FieldKind, value: unknown): string | null => {
+  switch (kind) {
+    case 'stringArray':
+      if (!Array.isArray(value)) return `expected an array of strings, got ${typeof value}`;
+      if (!value.length) return 'must not be empty';
+      if (value.some((v) => typeof v !== 'string' || !v))
+        return 'every entry must be a non-empty string';
+      return null;
+    case 'string':
+      return typeof value === 'string' && value ? null : 'expected a non-empty string';
+    case 'port':
+      return typeof value === 'number' || (typeof value === 'string' && value)
+        ? null
+        : 'expected a number or a string like "53,443,1000-2000"';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'expected a boolean';
+    case 'object':
+      return isPlainObject(value) ? null : 'expected an object';
+    case 'condition':
+      return validateCondition(value).join('; ') || null;
+  }
+};
+
+export const validateRule = (
+  rule: unknown,
+  file: string,
+  index: number,
+): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const issue = (message: string, field?: string) =>
+    issues.push({ file, index, field, message });
+
+  if (!isPlainObject(rule)) {
+    issue(`expected a rule object, got ${Array.isArray(rule) ? 'array' : typeof rule}`);
+    return issues;
+  }
+  if (!Object.keys(rule).length) {
+    issue('empty rule');
+    return issues;
+  }
+
+  const known = Object.keys(RULE_FIELDS);
+  for (const [field, value] of Object.entries(rule)) {
+    const kind = RULE_FIELDS[field];
+    if (!kind) {
+      issue(`unknown field${suggest(field, known)}`, field);
+      continue;
+    }
+    const problem = checkField(kind, value);
+    if (problem) issue(problem, field);
+  }
+
+  // Xray treats a missing type as "field"
+  if ('type' in rule && rule.type !== 'field') issue(`must be "field"`, 'type');
+  if (typeof rule.network === 'string' && !NETWORK_RE.test(rule.network))
+    issue('expected "tcp", "udp" or "tcp,udp"', 'network');
+  if (
+    typeof rule.domainMatcher === 'string' &&
+    !['hybrid', 'linear'].includes(rule.domainMatcher)
+  )
+    issue('expected "hybrid" or "linear"', 'domainMatcher');
+  if (!('outboundTag' in rule) && !('balancerTag' in rule))
+    issue('either outboundTag or balancerTag is required', 'outboundTag');
+  if ('outboundTag' in rule && 'balancerTag' in rule)
+    issue('outboundTag and balancerTag are mutually exclusive', 'balancerTag');
+  if (!Object.keys(rule).some((field) => !NON_MATCHER_FIELDS.has(field)))
+    issue('rule has no matching conditions');
+
+  return issues;
+};
+
+/**
+ * Validate a rules file, returning the rules without issues and every issue found
+ */
+export const validateRules = (
+  rules: unknown,
+  file: string,
+): { rules: XrayRule[]; issues: ValidationIssue[] } => {
+  if (!Array.isArray(rules)) {
+    return {
+      rules: [],
+      issues: [{ file, message: 'expected an array of rules' }],
+    };
+  }
+  const valid: XrayRule[] = [];
+  const issues: ValidationIssue[] = [];
+  rules.forEach((rule, index) => {
+    const ruleIssues = validateRule(rule, file, index);
+    if (ruleIssues.length) {
+      issues.push(...ruleIssues);
+    } else {
+      // Set in place: the rule object identifies where it was loaded from
+      (rule as XrayRule).type ??= 'field';
+      valid.push(rule as XrayRule);
+    }
+  });
+  return { rules: valid, issues };
+};
+
+/**
+ * Validate an override file, returning the override without invalid keys and every issue found
+ */
+export const validateOverride = (
+  override: unknown,
+  file: string,
+): { override: JsonOptions; issues: ValidationIssue[] } => {
+  if (!isPlainObject(override)) {
+    return {
+      override: {},
+      issues: [{ file, message: 'expected an object of config sections' }],
+    };
+  }
+  const valid: JsonOptions = {};
+  const issues: ValidationIssue[] = [];
+  const known = Object.keys(OVERRIDE_FIELDS);
+  for (const [field, value] of Object.entries(override)) {
+    const kind = OVERRIDE_FIELDS[field];
+    const fieldIssues: ValidationIssue[] = [];
+    if (field === MERGE_STRATEGIES_KEY) {
+      if (!isPlainObject(value)) {
+        fieldIssues.push({ file, field, message: 'expected an object of path → strategy' });
+      } else {
+        for (const [path, strategy] of Object.entries(value)) {
+          if (!isArrayMergeStrategy(strategy))
+            fieldIssues.push({
+              file,
+              field: `${field}.${path}`,
+              message: 'expected "replace", "append", "prepend" or "mergeBy:<key>"',
+            });
+        }
+      }
+    } else if (value === null) {
+      // JSON Merge Patch: removes the section from the upstream config
+    } else if (!kind) {
+      fieldIssues.push({ file, field, message: `unknown config section${suggest(field, known)}` });
+    } else if (kind === 'array' && !Array.isArray(value)) {
+      fieldIssues.push({ file, field, message: 'expected an array' });
+    } else if (kind === 'object' && !isPlainObject(value)) {
+      fieldIssues.push({ file, field, message: 'expected an object' });
+    } else if (kind === 'array') {
+      (value as unknown[]).forEach((item, index) => {
+        if (!isPlainObject(item))
+          fieldIssues.push({ file, field: `${field}[${index}]`, message: 'expected an object' });
+      });
+    } else if (field === 'routing' && 'rules' in (value as object)) {
+      fieldIssues.push(
+        ...validateRules((value as Record<string, unknown>).rules, file).issues.map(
+          (i) => ({ ...i, field: `routing.rules${i.field ? `.${i.field}` : ''}` }),
+        ),
+      );
+    }
+    if (fieldIssues.length) issues.push(...fieldIssues);
+    else valid[field] = value as JsonOptions[string];
+  }
+  return { override: valid, issues };
+};
+
+/**
+ * Validate an outbounds file: an array of outbound objects, each with its own `tag`.
+ * Other fields are not checked, an outbound may be a patch for the upstream one.
+ */
+export const validateOutbounds = (
+  outbounds: unknown,
+  file: string,
+): { outbounds: JsonOptions[]; issues: ValidationIssue[] } => {
+  if (!Array.isArray(outbounds)) {
+    return {
+      outbounds: [],
+      issues: [{ file, message: 'expected an array of outbounds' }],
+    };
+  }
+  const valid: JsonOptions[] = [];
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<string>();
+  outbounds.forEach((outbound, index) => {
+    const field = `[${index}]`;
+    if (!isPlainObject(outbound)) {
+      issues.push({ file, field, message: 'expected an outbound object' });
+    } else if (typeof outbound.tag !== 'string' || !outbound.tag) {
+      issues.push({ file, field: `${field}.tag`, message: 'expected a non-empty string' });
+    } else if (seen.has(outbound.tag)) {
+      issues.push({ file, field: `${field}.tag`, message: `duplicate tag "${outbound.tag}"` });
+    } else {
+      seen.add(outbound.tag);
+      valid.push(outbound as JsonOptions);
+    }
+  });
+  return { outbounds: valid, issues };
+};
+
+export const formatIssue = ({ file, index, field, message }: ValidationIssue) =>
+  [
+    file,
+    typeof index === 'number' ? `rule #${index}` : null,
+    field ? `field "${field}"` : null,
+    message,
+  ]
+    .filter(Boolean)
+    .join(': ');
@@ -0,0 +1,56 @@
+/**
+ * Variables filled in per request in rule and override files
+ * - `iso` / `iso_lower` – the visitor's country
+ * - `subId` – the subscription id
+ * - `publicURL` – the `publicURL` option
+ * - `tag` – the tag, in files of a tag preset only
+ */
+export const REQUEST_VARIABLES = ['iso', 'iso_lower', 'subId', 'publicURL', 'tag'] as const;
+
+export type RequestVariables = Partial<Record<(typeof REQUEST_VARIABLES)[number], string>>;
+
+export const VARIABLE_RE = /\$\{([A-Za-z_]\w*)\}/g;
+
+export const isRequestVariable = (name: string) =>
+  (REQUEST_VARIABLES as readonly string[]).includes(name);
+
+/**
+ * Map every string inside a JSON value
+ */
+export const mapStrings = (value: unknown, map: (text: string) => string): any => {
+  if (typeof value === 'string') return map(value);
+  if (Array.isArray(value)) return value.map((item) => mapStrings(item, map));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, mapStrings(item, map)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Names of the variables used anywhere inside a JSON value
+ */
+export const findVariables = (value: unknown) => {
+  const names = new Set<string>();
+  mapStrings(value, (text) => {
+    for (const [, name] of text.matchAll(VARIABLE_RE)) names.add(name);
+    return text;
+  });
+  return names;
+};
+
+/**
+ * Fill in request variables, or `null` when one of them has no value for this request
+ */
+export const substituteVariables = <T>(value: T, variables: RequestVariables): T | null => {
+  let missing = false;
+  const filled = mapStrings(value, (text) =>
+    text.replace(VARIABLE_RE, (_, name: keyof RequestVariables) => {
+      const replacement = variables[name];
+      if (!replacement) missing = true;
+      return replacement ?? '';
+    }),
+  );
+  return missing ? null : filled;
+};
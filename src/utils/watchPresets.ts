@@ -0,0 +1,92 @@
+import { existsSync, watch, type FSWatcher } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+interface WatchPresetsProps {
+  /** Directories to watch recursively, missing ones are watched for from their parent */
+  dirs: string[];
+  /** Called once per burst of changes with every path touched */
+  onChange: (paths: string[]) => void;
+  onError?: (error: unknown) => void;
+  /** Quiet period before a burst of changes is reported */
+  debounceMs?: number;
+}
+
+/**
+ * Nearest directory above `dir` that exists
+ */
+const existingParent = (dir: string) => {
+  let parent = dirname(resolve(dir));
+  while (!existsSync(parent) && parent !== dirname(parent)) parent = dirname(parent);
+  return parent;
+};
+
+export const watchPresets = ({
+  dirs,
+  onChange,
+  onError,
+  debounceMs = 250,
+}: WatchPresetsProps) => {
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const flush = () => {
+    timer = undefined;
+    const paths = [...pending];
+    pending.clear();
+    try {
+      onChange(paths);
+    } catch (err) {
+      onError?.(err);
+    }
+  };
+
+  const report = (path: string) => {
+    pending.add(path);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  };
+
+  const watchers = new Map<string, FSWatcher>();
+
+  /**
+   * Watch `dir` itself when it exists, otherwise its nearest existing parent until it appears.
+   * Re-armed whenever the directory is created or removed.
+   */
+  const arm = (dir: string) => {
+    watchers.get(dir)?.close();
+    watchers.delete(dir);
+    if (closed) return;
+
+    let watcher: FSWatcher;
+    if (existsSync(dir)) {
+      watcher = watch(dir, { recursive: true }, (_event, filename) => {
+        report(filename ? join(dir, filename.toString()) : dir);
+        if (!existsSync(dir)) arm(dir);
+      });
+    } else {
+      const parent = existingParent(dir);
+      watcher = watch(parent, () => {
+        if (existsSync(dir)) {
+          report(dir);
+          arm(dir);
+        } else if (existingParent(dir) !== parent) {
+          arm(dir);
+        }
+      });
+    }
+    watcher.on('error', (err) => onError?.(err));
+    watchers.set(dir, watcher);
+  };
+
+  new Set(dirs).forEach(arm);
+
+  return {
+    close: () => {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      watchers.forEach((watcher) => watcher.close());
+      watchers.clear();
+    },
+  };
+};
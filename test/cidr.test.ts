@@ -0,0 +1,134 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  cidrContains,
+  createCidrMatcher,
+  parseCidr,
+  parseCidrList,
+  parseIp,
+} from '../src/utils/cidr.js';
+
+const contains = (outer: string, inner: string) =>
+  cidrContains(parseCidr(outer)!, parseCidr(inner)!);
+
+describe('parseIp', () => {
+  it('parses IPv4 and IPv6 addresses', () => {
+    assert.deepEqual(parseIp('10.0.0.1'), { version: 4, value: 0x0a000001n });
+    assert.deepEqual(parseIp('::1'), { version: 6, value: 1n });
+    assert.deepEqual(parseIp('2001:db8::'), { version: 6, value: 0x20010db8n << 96n });
+  });
+
+  it('returns IPv4-mapped IPv6 addresses as IPv4', () => {
+    assert.deepEqual(parseIp('::ffff:192.0.2.1'), parseIp('192.0.2.1'));
+    assert.deepEqual(parseIp('::ffff:c000:201'), parseIp('192.0.2.1'));
+  });
+
+  it('ignores a zone id and surrounding spaces', () => {
+    assert.deepEqual(parseIp(' fe80::1%eth0 '), { version: 6, value: (0xfe80n << 112n) | 1n });
+  });
+
+  it('rejects anything else', () => {
+    for (const raw of ['', 'localhost', '10.0.0', '10.0.0.256', '2001:db8:::1']) {
+      assert.equal(parseIp(raw), null, raw);
+    }
+  });
+});
+
+describe('parseCidr', () => {
+  it('clears the host bits', () => {
+    assert.deepEqual(parseCidr('10.1.2.3/8'), { version: 4, value: 0x0a000000n, prefix: 8 });
+    assert.deepEqual(parseCidr('2001:db8::1/32'), {
+      version: 6,
+      value: 0x20010db8n << 96n,
+      prefix: 32,
+    });
+  });
+
+  it('reads a bare address as a single host', () => {
+    assert.equal(parseCidr('10.0.0.1')!.prefix, 32);
+    assert.equal(parseCidr('::1')!.prefix, 128);
+  });
+
+  it('keeps the prefix of a mapped IPv4 network relative to the IPv4 part', () => {
+    assert.deepEqual(parseCidr('::ffff:10.0.0.0/104'), parseCidr('10.0.0.0/8'));
+  });
+
+  it('rejects invalid prefixes', () => {
+    const invalid = [
+      '10.0.0.0/33',
+      '10.0.0.0/-1',
+      '10.0.0.0/8.5',
+      '10.0.0.0/',
+      '1.2.3.4/1e1',
+      '10.0.0.0/ 8',
+      '10.0.0.0/0x8',
+      '::/129',
+      '::/',
+      '::ffff:10.0.0.0/95',
+    ];
+    for (const raw of invalid) {
+      assert.equal(parseCidr(raw), null, raw);
+    }
+  });
+});
+
+describe('cidrContains', () => {
+  it('contains equal and narrower IPv4 networks', () => {
+    assert.equal(contains('10.0.0.0/8', '10.0.0.0/8'), true);
+    assert.equal(contains('10.0.0.0/8', '10.1.0.0/16'), true);
+    assert.equal(contains('10.0.0.0/8', '10.255.255.255'), true);
+    assert.equal(contains('0.0.0.0/0', '192.168.1.1'), true);
+  });
+
+  it('does not contain wider or disjoint IPv4 networks', () => {
+    assert.equal(contains('10.1.0.0/16', '10.0.0.0/8'), false);
+    assert.equal(contains('10.0.0.0/8', '11.0.0.0/8'), false);
+    assert.equal(contains('172.16.0.0/12', '172.32.0.0/16'), false);
+  });
+
+  it('contains equal and narrower IPv6 networks', () => {
+    assert.equal(contains('2001:db8::/32', '2001:db8:1::/48'), true);
+    assert.equal(contains('2001:db8::/32', '2001:db8:ffff:ffff::1'), true);
+    assert.equal(contains('::/0', '::1'), true);
+  });
+
+  it('does not contain wider or disjoint IPv6 networks', () => {
+    assert.equal(contains('2001:db8:1::/48', '2001:db8::/32'), false);
+    assert.equal(contains('2001:db8::/32', '2001:db9::/32'), false);
+  });
+
+  it('never mixes IP versions', () => {
+    assert.equal(contains('0.0.0.0/0', '::1'), false);
+    assert.equal(contains('::/0', '10.0.0.1'), false);
+  });
+
+  it('compares plain addresses with a network', () => {
+    assert.equal(cidrContains(parseCidr('10.0.0.0/8')!, parseIp('10.2.3.4')!), true);
+    assert.equal(cidrContains(parseCidr('10.0.0.0/8')!, parseIp('::ffff:10.2.3.4')!), true);
+  });
+});
+
+describe('parseCidrList', () => {
+  it('expands aliases', () => {
+    assert.deepEqual(parseCidrList(['loopback']), [parseCidr('127.0.0.0/8'), parseCidr('::1/128')]);
+    assert.equal(parseCidrList(['uniquelocal', 'linklocal']).length, 6);
+  });
+
+  it('throws on an invalid entry', () => {
+    assert.throws(() => parseCidrList(['10.0.0.0/8', 'nope']), /Invalid CIDR: nope/);
+  });
+});
+
+describe('createCidrMatcher', () => {
+  it('matches addresses inside any of the networks', () => {
+    const matches = createCidrMatcher(['10.0.0.0/8', '2001:db8::/32', 'loopback']);
+    assert.equal(matches('10.9.8.7'), true);
+    assert.equal(matches('::ffff:10.9.8.7'), true);
+    assert.equal(matches('2001:db8::42'), true);
+    assert.equal(matches('127.0.0.1'), true);
+    assert.equal(matches('::1'), true);
+    assert.equal(matches('192.168.0.1'), false);
+    assert.equal(matches('not an ip'), false);
+  });
+});
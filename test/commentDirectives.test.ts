@@ -0,0 +1,82 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { parseCommentDirectives } from '../src/utils/commentDirectives.js';
+
+const parse = (comment: string) => parseCommentDirectives(comment).directives;
+
+describe('parseCommentDirectives', () => {
+  it('splits directives on ";", new lines and whitespace before the next key', () => {
+    const expected = { tags: ['gaming'], country: 'DE', eu: true };
+    assert.deepEqual(parse('tags=gaming; country=DE;eu=true'), expected);
+    assert.deepEqual(parse('tags=gaming\ncountry=DE\neu=true'), expected);
+    assert.deepEqual(parse('tags=gaming country=DE   eu=true'), expected);
+  });
+
+  it('reads keys case-insensitively and trims values', () => {
+    assert.deepEqual(parse('Country= de ;EU=yes; DIRECTSAMECOUNTRY=off'), {
+      tags: [],
+      country: 'DE',
+      eu: true,
+      directSameCountry: false,
+    });
+  });
+
+  it('ignores notes and unknown keys', () => {
+    const { directives, issues } = parseCommentDirectives(
+      'Paid until May, ask Bob\nplan=pro; country=FR; the rest is a note',
+    );
+    assert.deepEqual(directives, { tags: [], country: 'FR' });
+    assert.deepEqual(issues, []);
+    assert.deepEqual(parse(''), { tags: [] });
+  });
+
+  it('lets a later directive win', () => {
+    assert.deepEqual(parse('country=DE; eu=false; country=NL eu=true'), {
+      tags: [],
+      country: 'NL',
+      eu: true,
+    });
+  });
+
+  it('adds tags up across directives and drops duplicates', () => {
+    assert.deepEqual(parse('tags=a, b; tags=b,c,, ; tags=a').tags, ['a', 'b', 'c']);
+  });
+
+  it('reports invalid values and keeps the earlier valid one', () => {
+    const { directives, issues } = parseCommentDirectives('eu=true; eu=maybe; country=D');
+    assert.equal(directives.eu, true);
+    assert.equal(directives.country, undefined);
+    assert.deepEqual(issues, ['invalid value "maybe" for eu', 'invalid value "D" for country']);
+  });
+
+  it('accepts region names as country', () => {
+    assert.equal(parse('country=europe').country, 'EUROPE');
+    assert.equal(parse('country=D1').country, undefined);
+  });
+
+  it('reads the boolean forms of eu and directSameCountry', () => {
+    for (const value of ['1', 'true', 'yes', 'on', 'TRUE', 'On']) {
+      assert.equal(parse(`eu=${value}`).eu, true, value);
+    }
+    for (const value of ['0', 'false', 'no', 'off', 'NO']) {
+      assert.equal(parse(`directSameCountry=${value}`).directSameCountry, false, value);
+    }
+  });
+
+  it('lower-cases the format', () => {
+    assert.equal(parse('format=SingBox').format, 'singbox');
+    assert.deepEqual(parseCommentDirectives('format=sing-box').issues, [
+      'invalid value "sing-box" for format',
+    ]);
+  });
+
+  it('restricts override names to a file-safe alphabet', () => {
+    assert.equal(parse('override=team_a-1.v2').override, 'team_a-1.v2');
+    for (const value of ['../secret', 'a/b', 'a b']) {
+      const { directives, issues } = parseCommentDirectives(`override=${value};`);
+      assert.equal(directives.override, undefined, value);
+      assert.equal(issues.length, 1, value);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { createClientIpResolver } from '../src/utils/getClientIp.js';
+
+const PEER = '127.0.0.1';
+
+describe('createClientIpResolver', () => {
+  it('ignores forwarding headers from an untrusted peer', () => {
+    const resolve = createClientIpResolver({ trustedProxies: ['10.0.0.0/8'] });
+    const headers = { 'x-forwarded-for': '203.0.113.9', 'cf-connecting-ip': '203.0.113.9' };
+    assert.equal(resolve(headers, '198.51.100.7'), '198.51.100.7');
+    assert.equal(createClientIpResolver()(headers, PEER), PEER);
+  });
+
+  it('normalizes an IPv4-mapped peer before checking it', () => {
+    const resolve = createClientIpResolver({ trustedProxies: ['loopback'] });
+    assert.equal(resolve({ 'x-forwarded-for': '203.0.113.9' }, '::ffff:127.0.0.1'), '203.0.113.9');
+  });
+
+  describe('x-forwarded-for', () => {
+    const resolve = createClientIpResolver({ trustedProxies: ['loopback', '10.0.0.0/8'] });
+
+    it('walks right-to-left and skips trusted hops', () => {
+      assert.equal(resolve({ 'x-forwarded-for': '203.0.113.9, 10.0.0.2' }, PEER), '203.0.113.9');
+    });
+
+    it('ignores addresses the client put in front of the chain', () => {
+      const headers = { 'x-forwarded-for': '8.8.8.8, 203.0.113.9, 10.0.0.2' };
+      assert.equal(resolve(headers, PEER), '203.0.113.9');
+    });
+
+    it('returns the leftmost hop when every hop is trusted', () => {
+      assert.equal(resolve({ 'x-forwarded-for': '10.0.0.5, 10.0.0.2' }, PEER), '10.0.0.5');
+    });
+
+    it('joins repeated headers into one chain', () => {
+      assert.equal(resolve({ 'x-forwarded-for': ['8.8.8.8', '203.0.113.9'] }, PEER), '203.0.113.9');
+    });
+
+    it('stops at a hop that is not an address', () => {
+      assert.equal(resolve({ 'x-forwarded-for': '203.0.113.9, unknown' }, PEER), PEER);
+    });
+
+    it('falls back to the peer without the header', () => {
+      assert.equal(resolve({}, PEER), PEER);
+    });
+  });
+
+  it('ignores a Forwarded header unless it is listed', () => {
+    const resolve = createClientIpResolver({ trustedProxies: ['loopback'] });
+    const headers = { 'x-forwarded-for': '203.0.113.9', forwarded: 'for=8.8.8.8' };
+    assert.equal(resolve(headers, PEER), '203.0.113.9');
+    assert.equal(resolve({ forwarded: 'for=8.8.8.8' }, PEER), PEER);
+  });
+
+  describe('forwarded', () => {
+    const resolve = createClientIpResolver({
+      trustedProxies: ['loopback', '10.0.0.0/8'],
+      headers: ['forwarded', 'x-forwarded-for'],
+    });
+
+    it('reads the for= parameter of each element', () => {
+      const headers = { forwarded: 'for=203.0.113.9;proto=https, proto=http;For=10.0.0.2' };
+      assert.equal(resolve(headers, PEER), '203.0.113.9');
+    });
+
+    it('strips quotes, IPv6 brackets and ports', () => {
+      assert.equal(resolve({ forwarded: 'for="[2001:db8::17]:4711"' }, PEER), '2001:db8::17');
+      assert.equal(resolve({ forwarded: 'for="[2001:db8::17]"' }, PEER), '2001:db8::17');
+      assert.equal(resolve({ forwarded: 'for="203.0.113.9:8080"' }, PEER), '203.0.113.9');
+    });
+
+    it('stops at an obfuscated or missing for=', () => {
+      assert.equal(resolve({ forwarded: 'for=203.0.113.9, for=_hidden' }, PEER), PEER);
+      assert.equal(resolve({ forwarded: 'for=203.0.113.9, proto=https' }, PEER), PEER);
+    });
+
+    it('takes priority over a later header', () => {
+      const headers = { forwarded: 'for=198.51.100.1', 'x-forwarded-for': '203.0.113.9' };
+      assert.equal(resolve(headers, PEER), '198.51.100.1');
+    });
+  });
+
+  describe('other headers', () => {
+    const resolve = createClientIpResolver({
+      trustedProxies: ['loopback'],
+      headers: ['CF-Connecting-IP', 'x-forwarded-for'],
+    });
+
+    it('takes the value as the client address', () => {
+      const headers = { 'cf-connecting-ip': '2001:db8::1', 'x-forwarded-for': '203.0.113.9' };
+      assert.equal(resolve(headers, PEER), '2001:db8::1');
+    });
+
+    it('falls through to the next header on an invalid value', () => {
+      const headers = { 'cf-connecting-ip': 'nope', 'x-forwarded-for': '203.0.113.9' };
+      assert.equal(resolve(headers, PEER), '203.0.113.9');
+    });
+  });
+});
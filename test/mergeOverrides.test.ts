@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import {
+  MERGE_STRATEGIES_KEY,
+  applyOverrides,
+  isArrayMergeStrategy,
+  mergePatch,
+} from '../src/utils/mergeOverrides.js';
+
+import type { ArrayMergeStrategies, JsonOptions, JsonValue } from '../src/types.js';
+
+/** Override files may hold `null`, which `JsonValue` leaves out */
+const patch = (value: unknown) => value as JsonValue;
+
+const upstream: JsonOptions = {
+  log: { loglevel: 'warning', access: 'none' },
+  dns: { servers: ['1.1.1.1', '8.8.8.8'], queryStrategy: 'UseIP' },
+  outbounds: [
+    { tag: 'proxy', protocol: 'vless', settings: { id: 'a' }, mux: { enabled: false } },
+    { tag: 'direct', protocol: 'freedom' },
+  ],
+};
+
+describe('mergePatch', () => {
+  it('merges objects key by key', () => {
+    assert.deepEqual(mergePatch(upstream.dns, { queryStrategy: 'UseIPv4' }), {
+      servers: ['1.1.1.1', '8.8.8.8'],
+      queryStrategy: 'UseIPv4',
+    });
+  });
+
+  it('removes a key set to null', () => {
+    assert.deepEqual(mergePatch(upstream.log, patch({ access: null })), { loglevel: 'warning' });
+    assert.deepEqual(mergePatch({ a: { b: 1, c: 2 } }, patch({ a: { b: null } })), { a: { c: 2 } });
+  });
+
+  it('replaces scalars, arrays and mismatched types', () => {
+    assert.deepEqual(mergePatch({ a: 1 }, { a: 'x' }), { a: 'x' });
+    assert.deepEqual(mergePatch({ a: [1, 2] }, { a: [3] }), { a: [3] });
+    assert.deepEqual(mergePatch({ a: [1] }, { a: { b: 1 } }), { a: { b: 1 } });
+    assert.deepEqual(mergePatch({ a: { b: 1 } }, { a: [1] }), { a: [1] });
+  });
+
+  it('never mutates the target or shares the patch', () => {
+    const target = structuredClone(upstream);
+    const layer = { dns: { servers: ['9.9.9.9'] } };
+    const merged = mergePatch(target, layer) as JsonOptions;
+    assert.deepEqual(target, upstream);
+    (merged.dns as JsonOptions).servers = [];
+    assert.deepEqual(layer.dns.servers, ['9.9.9.9']);
+  });
+
+  describe('array strategies', () => {
+    const merge = (layer: unknown, strategies: ArrayMergeStrategies) =>
+      mergePatch(upstream, patch(layer), strategies) as JsonOptions;
+
+    it('appends and prepends', () => {
+      const layer = { dns: { servers: ['9.9.9.9'] } };
+      assert.deepEqual((merge(layer, { 'dns.servers': 'append' }).dns as JsonOptions).servers, [
+        '1.1.1.1',
+        '8.8.8.8',
+        '9.9.9.9',
+      ]);
+      assert.deepEqual((merge(layer, { 'dns.servers': 'prepend' }).dns as JsonOptions).servers, [
+        '9.9.9.9',
+        '1.1.1.1',
+        '8.8.8.8',
+      ]);
+    });
+
+    it('replaces when the strategy says so or the path has none', () => {
+      const layer = { dns: { servers: ['9.9.9.9'] } };
+      const cases: ArrayMergeStrategies[] = [
+        { 'dns.servers': 'replace' },
+        { servers: 'append' },
+        {},
+      ];
+      for (const strategies of cases) {
+        assert.deepEqual((merge(layer, strategies).dns as JsonOptions).servers, ['9.9.9.9']);
+      }
+    });
+
+    it('deep-merges items with the same key in place and appends new ones', () => {
+      const layer = {
+        outbounds: [
+          { tag: 'warp', protocol: 'wireguard' },
+          { tag: 'proxy', settings: { flow: 'xtls-rprx-vision' }, mux: null },
+        ],
+      };
+      assert.deepEqual(merge(layer, { outbounds: 'mergeBy:tag' }).outbounds, [
+        { tag: 'proxy', protocol: 'vless', settings: { id: 'a', flow: 'xtls-rprx-vision' } },
+        { tag: 'direct', protocol: 'freedom' },
+        { tag: 'warp', protocol: 'wireguard' },
+      ]);
+    });
+
+    it('appends items without the key', () => {
+      const layer = { outbounds: [{ protocol: 'blackhole' }] };
+      assert.deepEqual(merge(layer, { outbounds: 'mergeBy:tag' }).outbounds, [
+        ...(upstream.outbounds as JsonOptions[]),
+        { protocol: 'blackhole' },
+      ]);
+    });
+
+    it('applies strategies of nested paths inside merged items', () => {
+      const target = { outbounds: [{ tag: 'proxy', streams: [1, 2] }] };
+      const layer = { outbounds: [{ tag: 'proxy', streams: [3] }] };
+      assert.deepEqual(
+        mergePatch(target, layer, { outbounds: 'mergeBy:tag', 'outbounds.streams': 'append' }),
+        { outbounds: [{ tag: 'proxy', streams: [1, 2, 3] }] },
+      );
+    });
+
+    it('uses the patch array when the target has none', () => {
+      assert.deepEqual(mergePatch({}, { fakedns: [{ ipPool: 'x' }] }, { fakedns: 'append' }), {
+        fakedns: [{ ipPool: 'x' }],
+      });
+    });
+  });
+});
+
+describe('isArrayMergeStrategy', () => {
+  it('accepts the documented strategies only', () => {
+    for (const value of ['replace', 'append', 'prepend', 'mergeBy:tag', 'mergeBy:address']) {
+      assert.equal(isArrayMergeStrategy(value), true, value);
+    }
+    for (const value of ['merge', 'mergeBy:', 'Append', 1, null]) {
+      assert.equal(isArrayMergeStrategy(value), false, String(value));
+    }
+  });
+});
+
+describe('applyOverrides', () => {
+  it('applies layers in order, later layers winning', () => {
+    const result = applyOverrides(upstream, [
+      { log: { loglevel: 'info' } },
+      patch({ log: { loglevel: 'debug', access: null } }) as JsonOptions,
+    ]);
+    assert.deepEqual(result.log, { loglevel: 'debug' });
+  });
+
+  it('extends the default strategies with the $merge key of each layer only', () => {
+    const result = applyOverrides(
+      upstream,
+      [
+        { [MERGE_STRATEGIES_KEY]: { 'dns.servers': 'prepend' }, dns: { servers: ['9.9.9.9'] } },
+        { dns: { servers: ['4.4.4.4'] } },
+      ],
+      { 'dns.servers': 'append' },
+    );
+    assert.deepEqual((result.dns as JsonOptions).servers, [
+      '9.9.9.9',
+      '1.1.1.1',
+      '8.8.8.8',
+      '4.4.4.4',
+    ]);
+  });
+
+  it('never copies the $merge key into the config', () => {
+    const result = applyOverrides(upstream, [
+      { [MERGE_STRATEGIES_KEY]: { outbounds: 'mergeBy:tag' }, outbounds: [{ tag: 'direct' }] },
+    ]);
+    assert.equal(MERGE_STRATEGIES_KEY in result, false);
+    assert.deepEqual(result.outbounds, upstream.outbounds);
+  });
+
+  it('removes a whole section set to null', () => {
+    const result = applyOverrides(upstream, [patch({ dns: null }) as JsonOptions]);
+    assert.equal('dns' in result, false);
+  });
+});
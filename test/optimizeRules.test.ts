@@ -0,0 +1,369 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { cidrContains, parseCidr, parseIp } from '../src/utils/cidr.js';
+import { optimizeConfigRules, optimizeRules } from '../src/utils/optimizeRules.js';
+
+import type { JsonOptions, XrayRule } from '../src/types.js';
+
+type Rule = Partial<XrayRule> & Record<string, unknown>;
+
+interface Connection {
+  domain?: string;
+  ip?: string;
+  port: number;
+}
+
+const matchesDomain = (entry: string, domain: string) => {
+  const [prefix, ...rest] = entry.split(':');
+  const value = rest.join(':');
+  if (!rest.length) return domain.includes(entry);
+  if (prefix === 'domain') return domain === value || domain.endsWith(`.${value}`);
+  if (prefix === 'full') return domain === value;
+  if (prefix === 'keyword') return domain.includes(value);
+  if (prefix === 'regexp') return new RegExp(value).test(domain);
+  return false;
+};
+
+const matchesIp = (entry: string, ip: string) => {
+  const cidr = parseCidr(entry);
+  const parsed = parseIp(ip);
+  return Boolean(cidr && parsed && cidrContains(cidr, parsed));
+};
+
+/**
+ * Outbound of the first matching rule, as Xray picks it: the fields of a rule are AND-ed,
+ * the entries of a field OR-ed
+ */
+const route = (rules: Rule[], { domain, ip, port }: Connection) =>
+  rules.find(
+    (rule) =>
+      rule.enabled !== false &&
+      (!rule.domain || (domain !== undefined && rule.domain.some((e) => matchesDomain(e, domain)))) &&
+      (!rule.ip || (ip !== undefined && rule.ip.some((e) => matchesIp(e, ip)))) &&
+      (rule.port === undefined || String(rule.port) === String(port)),
+  )?.outboundTag ?? 'default';
+
+const DOMAINS = [
+  'google.com',
+  'mail.google.com',
+  'xgoogle.com',
+  'example.org',
+  'ads.example.org',
+  'exam.net',
+  'video.youtube.com',
+];
+const IPS = ['10.1.2.3', '10.200.0.1', '192.168.1.1', '8.8.8.8', '2001:db8::1', '2001:db8:1::1', 'fe80::1'];
+const CONNECTIONS: Connection[] = [80, 443].flatMap((port) => [
+  ...DOMAINS.map((domain) => ({ domain, port })),
+  ...IPS.map((ip) => ({ ip, port })),
+  ...DOMAINS.flatMap((domain) => IPS.slice(0, 4).map((ip) => ({ domain, ip, port }))),
+]);
+
+/**
+ * The optimized rules route every sample connection like the original ones
+ */
+const assertEquivalent = (rules: Rule[]) => {
+  const { rules: optimized } = optimizeRules(structuredClone(rules) as XrayRule[]);
+  for (const connection of CONNECTIONS) {
+    assert.equal(
+      route(optimized as Rule[], connection),
+      route(rules, connection),
+      `${JSON.stringify(connection)} routed differently by ${JSON.stringify(optimized)}`,
+    );
+  }
+  return optimized;
+};
+
+const rule = (fields: Omit<Rule, 'type'>): Rule => ({ type: 'field', ...fields });
+
+describe('optimizeRules', () => {
+  describe('domain entries', () => {
+    it('drops a full: entry covered by an earlier domain: entry', () => {
+      const rules = [
+        rule({ domain: ['domain:google.com'], outboundTag: 'proxy' }),
+        rule({ domain: ['full:mail.google.com', 'domain:example.org'], outboundTag: 'direct' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [
+        rules[0],
+        rule({ domain: ['domain:example.org'], outboundTag: 'direct' }),
+      ]);
+      assert.equal(optimizeRules(rules as XrayRule[]).report.removedEntries, 1);
+    });
+
+    it('drops a rule whose domains all contain an earlier keyword', () => {
+      const rules = [
+        rule({ domain: ['keyword:google'], outboundTag: 'proxy' }),
+        rule({ domain: ['domain:mail.google.com', 'full:google.com'], outboundTag: 'direct' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [rules[0]]);
+      assert.equal(optimizeRules(rules as XrayRule[]).report.unreachableRules, 1);
+    });
+
+    it('treats a domain without prefix as a keyword', () => {
+      const rules = [
+        rule({ domain: ['google'], outboundTag: 'proxy' }),
+        rule({ domain: ['keyword:mail.google'], outboundTag: 'direct' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [rules[0]]);
+    });
+
+    it('keeps entries an earlier rule only partly matches', () => {
+      const cases: Rule[][] = [
+        // keyword:google also matches xgoogle.com
+        [
+          rule({ domain: ['domain:google.com'], outboundTag: 'proxy' }),
+          rule({ domain: ['keyword:google'], outboundTag: 'direct' }),
+        ],
+        // domain: also matches subdomains
+        [
+          rule({ domain: ['full:google.com'], outboundTag: 'proxy' }),
+          rule({ domain: ['domain:google.com'], outboundTag: 'direct' }),
+        ],
+        // a suffix only counts at a label boundary
+        [
+          rule({ domain: ['domain:oogle.com'], outboundTag: 'proxy' }),
+          rule({ domain: ['full:google.com'], outboundTag: 'direct' }),
+        ],
+        // regexp: entries are only compared as strings
+        [
+          rule({ domain: ['regexp:goo'], outboundTag: 'proxy' }),
+          rule({ domain: ['full:google.com'], outboundTag: 'direct' }),
+        ],
+        // geosite: entries are only compared as strings
+        [
+          rule({ domain: ['geosite:google'], outboundTag: 'proxy' }),
+          rule({ domain: ['full:google.com'], outboundTag: 'direct' }),
+        ],
+      ];
+      for (const rules of cases) {
+        assert.deepEqual(assertEquivalent(rules), rules);
+      }
+    });
+
+    it('drops a regexp: or geosite: entry only after the same entry', () => {
+      const rules = [
+        rule({ domain: ['regexp:^ads\\.', 'geosite:google'], outboundTag: 'block' }),
+        rule({ domain: ['geosite:google', 'regexp:^ads\\.'], outboundTag: 'direct' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [rules[0]]);
+    });
+  });
+
+  describe('ip entries', () => {
+    it('drops an IPv4 network inside an earlier one', () => {
+      const rules = [
+        rule({ ip: ['10.0.0.0/8'], outboundTag: 'direct' }),
+        rule({ ip: ['10.1.0.0/16', '8.8.8.8/32'], outboundTag: 'proxy' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [
+        rules[0],
+        rule({ ip: ['8.8.8.8/32'], outboundTag: 'proxy' }),
+      ]);
+    });
+
+    it('drops a bare IPv4 address inside an earlier network', () => {
+      const rules = [
+        rule({ ip: ['10.1.0.0/16'], outboundTag: 'direct' }),
+        rule({ ip: ['10.1.2.3'], outboundTag: 'proxy' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [rules[0]]);
+    });
+
+    it('drops an IPv6 network inside an earlier one', () => {
+      const rules = [
+        rule({ ip: ['2001:db8::/32'], outboundTag: 'direct' }),
+        rule({ ip: ['2001:db8:1::/48'], outboundTag: 'proxy' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [rules[0]]);
+    });
+
+    it('keeps wider networks and networks of the other IP version', () => {
+      const cases: Rule[][] = [
+        [
+          rule({ ip: ['10.1.0.0/16'], outboundTag: 'direct' }),
+          rule({ ip: ['10.0.0.0/8'], outboundTag: 'proxy' }),
+        ],
+        [
+          rule({ ip: ['2001:db8:1::/48'], outboundTag: 'direct' }),
+          rule({ ip: ['2001:db8::/32'], outboundTag: 'proxy' }),
+        ],
+        [
+          rule({ ip: ['0.0.0.0/0'], outboundTag: 'direct' }),
+          rule({ ip: ['::/0'], outboundTag: 'proxy' }),
+        ],
+        [
+          rule({ ip: ['geoip:private'], outboundTag: 'direct' }),
+          rule({ ip: ['192.168.0.0/16'], outboundTag: 'proxy' }),
+        ],
+      ];
+      for (const rules of cases) {
+        assert.deepEqual(assertEquivalent(rules), rules);
+      }
+    });
+  });
+
+  describe('whole rules', () => {
+    it('needs every matcher of the earlier rule to cover the later one', () => {
+      const rules = [
+        rule({ domain: ['domain:google.com'], port: 443, outboundTag: 'proxy' }),
+        rule({ domain: ['full:mail.google.com'], outboundTag: 'direct' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), rules);
+    });
+
+    it('drops a rule narrower in every matcher', () => {
+      const rules = [
+        rule({ domain: ['domain:google.com'], outboundTag: 'proxy' }),
+        rule({ domain: ['full:mail.google.com'], port: 443, outboundTag: 'direct' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [rules[0]]);
+    });
+
+    it('drops a rule whose entries are covered by different earlier rules', () => {
+      const rules = [
+        rule({ domain: ['domain:google.com'], outboundTag: 'proxy' }),
+        rule({ domain: ['domain:example.org'], outboundTag: 'block' }),
+        rule({ domain: ['full:google.com', 'full:ads.example.org'], outboundTag: 'direct' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), rules.slice(0, 2));
+      assert.equal(optimizeRules(rules as XrayRule[]).report.unreachableRules, 1);
+    });
+
+    it('leaves disabled rules alone and never lets them cover others', () => {
+      const rules = [
+        rule({ domain: ['domain:google.com'], outboundTag: 'block', enabled: false }),
+        rule({ domain: ['domain:google.com'], outboundTag: 'proxy' }),
+        rule({ domain: ['domain:google.com'], outboundTag: 'proxy', enabled: false }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), rules);
+    });
+  });
+
+  describe('merging', () => {
+    it('merges adjacent rules with the same target that differ in domain only', () => {
+      const rules = [
+        rule({ domain: ['domain:google.com'], port: 443, outboundTag: 'proxy', remarks: 'a' }),
+        rule({ domain: ['domain:youtube.com'], port: 443, outboundTag: 'proxy', remarks: 'b' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [
+        rule({
+          domain: ['domain:google.com', 'domain:youtube.com'],
+          port: 443,
+          outboundTag: 'proxy',
+          remarks: 'a',
+        }),
+      ]);
+      assert.equal(optimizeRules(rules as XrayRule[]).report.mergedRules, 1);
+    });
+
+    it('merges ip lists', () => {
+      const rules = [
+        rule({ ip: ['10.0.0.0/8'], outboundTag: 'direct' }),
+        rule({ ip: ['192.168.0.0/16'], outboundTag: 'direct' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), [
+        rule({ ip: ['10.0.0.0/8', '192.168.0.0/16'], outboundTag: 'direct' }),
+      ]);
+    });
+
+    it('does not merge rules that differ in a target, another matcher or two lists', () => {
+      const cases: Rule[][] = [
+        [
+          rule({ domain: ['domain:google.com'], outboundTag: 'proxy' }),
+          rule({ domain: ['domain:youtube.com'], outboundTag: 'direct' }),
+        ],
+        [
+          rule({ domain: ['domain:google.com'], port: 443, outboundTag: 'proxy' }),
+          rule({ domain: ['domain:youtube.com'], port: 80, outboundTag: 'proxy' }),
+        ],
+        [
+          rule({ domain: ['domain:google.com'], ip: ['10.0.0.0/8'], outboundTag: 'proxy' }),
+          rule({ domain: ['domain:youtube.com'], ip: ['8.8.8.8'], outboundTag: 'proxy' }),
+        ],
+      ];
+      for (const rules of cases) {
+        assert.deepEqual(assertEquivalent(rules), rules);
+      }
+    });
+
+    it('does not merge across a rule in between', () => {
+      const rules = [
+        rule({ domain: ['domain:google.com'], outboundTag: 'proxy' }),
+        rule({ domain: ['domain:example.org'], outboundTag: 'direct' }),
+        rule({ domain: ['domain:youtube.com'], outboundTag: 'proxy' }),
+      ];
+      assert.deepEqual(assertEquivalent(rules), rules);
+    });
+  });
+
+  it('routes like the original rules for generated rule lists', () => {
+    const domainPool = [
+      'domain:google.com',
+      'full:google.com',
+      'full:mail.google.com',
+      'keyword:google',
+      'google',
+      'domain:example.org',
+      'keyword:exam',
+      'regexp:^ads\\.',
+      'full:ads.example.org',
+    ];
+    const ipPool = [
+      '10.0.0.0/8',
+      '10.1.0.0/16',
+      '10.1.2.3',
+      '8.8.8.8/32',
+      '192.168.0.0/16',
+      '2001:db8::/32',
+      '2001:db8:1::/48',
+    ];
+    // Deterministic, so a failure can be replayed
+    let seed = 42;
+    const random = (n: number) => {
+      seed = (seed * 1103515245 + 12345) % 2 ** 31;
+      return seed % n;
+    };
+    const pick = (pool: string[]) =>
+      [...new Set(Array.from({ length: 1 + random(3) }, () => pool[random(pool.length)]))];
+
+    for (let run = 0; run < 300; run += 1) {
+      const rules = Array.from({ length: 2 + random(5) }, () => {
+        const kind = random(3);
+        return rule({
+          ...(kind !== 1 && { domain: pick(domainPool) }),
+          ...(kind !== 0 && { ip: pick(ipPool) }),
+          ...(random(4) === 0 && { port: 443 }),
+          outboundTag: ['proxy', 'direct', 'block'][random(3)],
+        });
+      });
+      assertEquivalent(rules);
+    }
+  });
+});
+
+describe('optimizeConfigRules', () => {
+  it('optimizes routing.rules and keeps the rest of the config', () => {
+    const config = {
+      outbounds: [{ tag: 'proxy' }],
+      routing: {
+        domainStrategy: 'IPIfNonMatch',
+        rules: [
+          rule({ domain: ['domain:google.com'], outboundTag: 'proxy' }),
+          rule({ domain: ['full:google.com'], outboundTag: 'direct' }),
+        ],
+      },
+    };
+    const { json, report } = optimizeConfigRules(structuredClone(config) as unknown as JsonOptions);
+    assert.deepEqual(json, {
+      ...config,
+      routing: { ...config.routing, rules: config.routing.rules.slice(0, 1) },
+    });
+    assert.deepEqual(report, { unreachableRules: 1, mergedRules: 0, removedEntries: 0 });
+  });
+
+  it('leaves a config without routing rules as it is', () => {
+    const config = { outbounds: [] };
+    assert.equal(optimizeConfigRules(config).json, config);
+  });
+});